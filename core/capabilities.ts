@@ -0,0 +1,138 @@
+import {DeviceItem} from "./interfaces/messages";
+
+/**
+ * Features of a device, which vary by complexes and devices
+ */
+export interface DeviceCapabilities {
+    /**
+     * Whether the speed of the device is adjustable, such as ventilators
+     */
+    speed: boolean
+    /**
+     * Whether the brightness of the device is adjustable, such as lights
+     */
+    dimming: boolean
+    /**
+     * Argument fields which have been present in the device items
+     */
+    arguments: string[]
+}
+
+export type CapabilityOverride = "auto" | "supported" | "unsupported";
+
+/**
+ * Capabilities forced by users regardless of the discovered ones, for devices which never reveal them
+ */
+export interface CapabilityConfig {
+    speed?: CapabilityOverride
+    dimming?: CapabilityOverride
+}
+
+export type DeviceInfoValues = { [key: string]: string };
+
+const SPEED_LEVEL_PATTERN = /^0[1-3]$/;
+
+/**
+ * Complexes whose ventilators have been known to support the speed before the capabilities were discovered.
+ * The capabilities of their ventilators are seeded with the speed, since ventilators may never report a speed level.
+ */
+export const SPEED_SUPPORTED_COMPLEXES = [
+    'naturedasan3', // 다산신도시자연앤e편한세상2차, 자연앤이편한세상3차
+    'yangju4', // e편한세상 옥정메트로포레
+    'sooncheon', // e편한세상 순천(1~10), e편한세상 순천(11~12)
+    'changwon', // e편한세상 창원파크센트럴1단지, e편한세상 창원파크센트럴2단지
+    'sunbusquare', // e편한세상 선부역 어반스퀘어
+    'inchang', // e편한세상 인창어반포레
+    'youngcheon' // e편한세상 영천1단지, e편한세상 영천2단지
+];
+
+/**
+ * Infers the capabilities of devices from the device info of the menu (controlinfo) and the device items of the responses.
+ * The capabilities are only accumulated, since the devices omit some values depending on their states.
+ *
+ * NOTE: the device info of ventilators carries nothing about the speed, and ventilators report an empty speed while turned off.
+ * Therefore the speed is discovered only after a non-zero speed level has been reported while turned on,
+ * and ventilators which never report the level must be seeded by the known complexes or configured by the capability config.
+ */
+export class CapabilityDiscovery {
+
+    static empty(): DeviceCapabilities {
+        return {
+            speed: false,
+            dimming: false,
+            arguments: []
+        };
+    }
+
+    /**
+     * @param deviceType Device type of the device
+     * @param directoryName Directory name of the complex, which is unknown until the client has been prepared
+     */
+    static seed(deviceType: string, directoryName?: string): DeviceCapabilities {
+        const capabilities = CapabilityDiscovery.empty();
+        if(deviceType === "fan" && directoryName !== undefined && SPEED_SUPPORTED_COMPLEXES.includes(directoryName)) {
+            capabilities.speed = true;
+        }
+        return capabilities;
+    }
+
+    static fromDeviceInfo(deviceType: string, info?: DeviceInfoValues, previous?: DeviceCapabilities): DeviceCapabilities {
+        const capabilities = CapabilityDiscovery.copy(previous);
+        if(deviceType === "light" && info?.["dimming"] === "y") {
+            capabilities.dimming = true;
+        }
+        return capabilities;
+    }
+
+    static fromDeviceItem(item: DeviceItem, previous?: DeviceCapabilities): DeviceCapabilities {
+        const capabilities = CapabilityDiscovery.copy(previous);
+        for(const key of Object.keys(item)) {
+            if(key.startsWith("arg") && item[key] !== undefined && !capabilities.arguments.includes(key)) {
+                capabilities.arguments.push(key);
+            }
+        }
+        capabilities.arguments.sort();
+        if(item.device === "fan" && item["arg1"] === "on" && SPEED_LEVEL_PATTERN.test(item["arg2"] || "")) {
+            capabilities.speed = true;
+        }
+        return capabilities;
+    }
+
+    static merge(a?: DeviceCapabilities, b?: DeviceCapabilities): DeviceCapabilities | undefined {
+        if(a === undefined || b === undefined) {
+            return a || b;
+        }
+        return {
+            speed: a.speed || b.speed,
+            dimming: a.dimming || b.dimming,
+            arguments: [...a.arguments, ...b.arguments.filter((key) => !a.arguments.includes(key))].sort()
+        };
+    }
+
+    static override(capabilities?: DeviceCapabilities, config?: CapabilityConfig): DeviceCapabilities {
+        const overridden = CapabilityDiscovery.copy(capabilities);
+        if(config?.speed && config.speed !== "auto") {
+            overridden.speed = config.speed === "supported";
+        }
+        if(config?.dimming && config.dimming !== "auto") {
+            overridden.dimming = config.dimming === "supported";
+        }
+        return overridden;
+    }
+
+    static equals(a?: DeviceCapabilities, b?: DeviceCapabilities): boolean {
+        return JSON.stringify(a) === JSON.stringify(b);
+    }
+
+    private static copy(capabilities?: DeviceCapabilities): DeviceCapabilities {
+        if(capabilities === undefined) {
+            return CapabilityDiscovery.empty();
+        }
+        return {
+            speed: !!capabilities.speed,
+            dimming: !!capabilities.dimming,
+            arguments: [...(capabilities.arguments || [])]
+        };
+    }
+
+}
@@ -12,7 +12,7 @@ export class Chunk {
         }
         const buffer = ByteBuffer.wrap(bytes);
         const length = buffer.getInt();
-        if(bytes.byteLength < length - 4) {
+        if(bytes.byteLength < length + 4) {
             return undefined;
         }
         const data = new Uint8Array(length);
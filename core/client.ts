@@ -1,14 +1,23 @@
-import readlineSync from 'readline-sync';
 import {DaelimConfig} from "./interfaces/daelim-config";
 import {Semaphore, Utils} from "./utils";
 import {Logging} from "homebridge";
-import {ErrorCallback, NetworkHandler, ResponseCallback} from "./network";
-import {Errors, LoginSubTypes, PushSubTypes, PushTypes, SettingSubTypes, SubTypes, Types} from "./fields";
+import {ConnectionState, ConnectionStateCallback, ErrorCallback, NetworkHandler, ResponseCallback} from "./network";
+import {DeviceSubTypes, Errors, LoginSubTypes, PushSubTypes, PushTypes, SettingSubTypes, SubTypes, Types} from "./fields";
 import {Complex} from "./interfaces/complex";
-import {setInterval} from "timers";
-import Timeout = NodeJS.Timeout;
-import fcm, {Credentials} from "push-receiver";
 import {MenuItem} from "./interfaces/menu";
+import {PacketRecorder, PacketReplayer} from "./recorder";
+import {RetryPolicy} from "./retry";
+import {Heartbeat} from "./heartbeat";
+import {ControlInfo, DeviceItem, DeviceResponse, PushPreferencesResponse, RequestBody, ResponseBody} from "./interfaces/messages";
+import {InvokeDispatcher} from "./invoke-dispatcher";
+import {WallPadPinReceiver} from "./wall-pad";
+import {ClientAddress, ClientAuthorization, PersistedSession, SessionStore} from "./session";
+import {SessionRecovery} from "./session-recovery";
+import {Packet} from "./packet";
+import {PushCredentialStore} from "./push-credentials";
+import {createPushTransports, PushNotification, PushTransport} from "./push-transport";
+import {DeviceStateCallback, DeviceStateSource, DeviceStateStore} from "./device-state";
+import Timeout = NodeJS.Timeout;
 
 export interface PushData {
     readonly from: string
@@ -20,16 +29,6 @@ export interface PushData {
 
 export type PushEventCallback = (data: PushData) => void;
 
-interface ClientAuthorization {
-    certification: string,
-    login: string
-}
-
-interface ClientAddress {
-    complex: string,
-    room: string
-}
-
 interface PushEventListener {
     type: PushTypes
     subType: PushSubTypes
@@ -39,22 +38,34 @@ interface PushEventListener {
 export class Client {
 
     public static MMF_SERVER_PORT = 25301;
+    public static PHONE_TYPE = "android";
+    public static UNREGISTERED_PHONE_TYPE = "none";
 
     private readonly authorization: ClientAuthorization;
     private readonly address: ClientAddress;
     private readonly semaphore = new Semaphore();
+    private readonly retryPolicy: RetryPolicy;
+    private readonly invokeDispatcher: InvokeDispatcher;
+    private readonly wallPadReceiver: WallPadPinReceiver;
+    private readonly sessionStore: SessionStore;
+    private readonly sessionRecovery: SessionRecovery;
+    private readonly deviceStates: DeviceStateStore;
+    private restoredSession?: PersistedSession;
+    private resumingSession = false;
+    private controlInfo?: ControlInfo;
+    private restoredMenu?: object;
+    private approvalTimer?: Timeout;
     private complex?: Complex;
     private menuItems?: MenuItem[];
     private handler?: NetworkHandler;
+    private heartbeat?: Heartbeat;
     private isLoggedIn = false;
-    private isRefreshing = false;
-    private lastKeepAliveTimestamp: number;
-    private enqueuedEstablishment?: Timeout;
     private readonly pushEventListeners: PushEventListener[] = [];
 
     constructor(private readonly log: Logging,
                 private readonly config: DaelimConfig,
-                private readonly credentials: Credentials) {
+                private readonly pushCredentials?: PushCredentialStore,
+                private readonly pushTransports: PushTransport[] = createPushTransports(log, config.push, pushCredentials)) {
         this.config = config;
         this.authorization = {
             certification: '00000000',
@@ -64,16 +75,36 @@ export class Client {
             complex: '',
             room: ''
         };
-        this.lastKeepAliveTimestamp = Date.now();
+        this.sessionStore = new SessionStore(log, config.storagePath, config.username, config.complex);
+        this.restoredSession = this.sessionStore.load();
+        if(this.restoredSession) {
+            Object.assign(this.authorization, this.restoredSession.authorization);
+            Object.assign(this.address, this.restoredSession.address);
+            this.controlInfo = this.restoredSession.controlInfo;
+        }
+        this.retryPolicy = new RetryPolicy(config.retry);
+        this.sessionRecovery = new SessionRecovery(log, () => this.relogin());
+        this.deviceStates = new DeviceStateStore(log);
+        this.wallPadReceiver = new WallPadPinReceiver(log, config.storagePath, config.wallPad);
+        this.invokeDispatcher = new InvokeDispatcher((items) => {
+            return this.sendDeferredRequest({
+                type: "invoke",
+                item: items
+            }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, (body) => {
+                return InvokeDispatcher.matches(items, body);
+            });
+        });
     }
 
     checkKeepAlive() {
-        const currentTime = Date.now();
-        if(currentTime - this.lastKeepAliveTimestamp < 10 * 60 * 1000) {
-            // Check keep alive when last keep alive time has passed for 10 minutes
+        if(!this.heartbeat || this.getConnectionState() !== ConnectionState.READY) {
+            return;
+        }
+        // NOTE: the heartbeat detects dead links by itself, force refreshing is a fallback
+        //       when the heartbeat has not been acknowledged for 10 minutes
+        if(Date.now() - this.heartbeat.getLastAcknowledged() < 10 * 60 * 1000) {
             return;
         }
-        this.lastKeepAliveTimestamp = currentTime;
         this.log('Refreshing connection to MMF server');
         this.refresh();
     }
@@ -88,16 +119,7 @@ export class Client {
         return pin;
     }
 
-    doesComplexMatch(directoryNames: string[]): boolean {
-        for(const directoryName of directoryNames) {
-            if(this.complex?.directoryName === directoryName) {
-                return true;
-            }
-        }
-        return false;
-    }
-
-    private checkPushPreferencesEnabled(response: any, name: string) {
+    private checkPushPreferencesEnabled(response: PushPreferencesResponse, name: string) {
         const items = response['item'] || [];
         for(const item of items) {
             if(item["name"] === name) {
@@ -107,7 +129,7 @@ export class Client {
         return false;
     }
 
-    private async forceUpdatePushPreferences(response: any, name: string, state: string = "on") {
+    private async forceUpdatePushPreferences(response: PushPreferencesResponse, name: string, state: string = "on") {
         if(this.checkPushPreferencesEnabled(response, name)) {
             return;
         }
@@ -128,20 +150,38 @@ export class Client {
         });
     }
 
-    sendUnreliableRequest(body: any, type: Types, subType: SubTypes) {
-        if(this.handler !== undefined) {
-            this.handler.sendUnreliableRequest(body, this.getAuthorizationPIN(), type, subType);
+    sendUnreliableRequest<T extends Types, S extends SubTypes>(body: RequestBody<T, S>, type: T, subType: S) {
+        if(this.handler === undefined) {
+            return;
         }
+        // NOTE: requests of the login flow must pass through while the session is being recovered
+        if(type !== Types.LOGIN && this.sessionRecovery.isRecovering()) {
+            this.sessionRecovery.waitForRecovery()
+                .then(() => this.sendUnreliableRequest(body, type, subType))
+                .catch((e) => this.log.warn(`Dropped a held request ${Types[type]}: ${e.message}`));
+            return;
+        }
+        this.handler.sendUnreliableRequest(body, this.getAuthorizationPIN(), type, subType);
     }
 
-    sendDeferredRequest(body: any, type: Types, fromSubType: SubTypes, toSubType: SubTypes, matches?: (response: any) => boolean): Promise<any> {
-        if(this.handler !== undefined) {
-            return this.handler.sendDeferredRequest(body, this.getAuthorizationPIN(), type, fromSubType, toSubType, matches);
+    sendDeferredRequest<T extends Types, F extends SubTypes, R extends SubTypes>(body: RequestBody<T, F>, type: T, fromSubType: F, toSubType: R, matches?: (response: ResponseBody<T, R>) => boolean, timeout?: number): Promise<ResponseBody<T, R>> {
+        const handler = this.handler;
+        if(handler !== undefined) {
+            return this.sessionRecovery.execute(() => this.retryPolicy.execute(this.log, () => {
+                return handler.sendDeferredRequest(body, this.getAuthorizationPIN(), type, fromSubType, toSubType, matches, timeout);
+            }));
         }
-        return new Promise<any>((resolve, reject) => reject('Handler not valid'));
+        return new Promise<ResponseBody<T, R>>((resolve, reject) => reject('Handler not valid'));
     }
 
-    registerResponseListener(type: Types, subType: SubTypes, callback: ResponseCallback) {
+    /**
+     * Invokes a device through the dispatcher, which coalesces invokes of the same device type into a single packet
+     */
+    sendInvokeRequest(item: DeviceItem): Promise<DeviceResponse> {
+        return this.invokeDispatcher.dispatch(item);
+    }
+
+    registerResponseListener<T extends Types, S extends SubTypes>(type: T, subType: S, callback: ResponseCallback<ResponseBody<T, S>>) {
         if(this.handler !== undefined) {
             this.handler.registerResponseListener(type, subType, callback);
         }
@@ -153,6 +193,28 @@ export class Client {
         }
     }
 
+    registerConnectionStateListener(callback: ConnectionStateCallback) {
+        if(this.handler !== undefined) {
+            this.handler.registerStateListener(callback);
+        }
+    }
+
+    getConnectionState(): ConnectionState {
+        return this.handler?.getState() || ConnectionState.DISCONNECTED;
+    }
+
+    getDeviceStates(): DeviceStateStore {
+        return this.deviceStates;
+    }
+
+    /**
+     * @param callback Listener of the device state changes
+     * @param device Device type to listen, every device type if not specified
+     */
+    registerDeviceStateListener(callback: DeviceStateCallback, device?: string) {
+        this.deviceStates.subscribe(callback, device);
+    }
+
     registerPushEventListener(type: PushTypes, subType: PushSubTypes, callback: PushEventCallback) {
         this.pushEventListeners.push({
             type: type,
@@ -166,6 +228,7 @@ export class Client {
             this.authorization.certification = body['certpin'];
             this.address.complex = body['dong'];
             this.address.room = body['ho'];
+            this.sessionStore.save(this.authorization, this.address, this.controlInfo);
 
             this.sendUnreliableRequest({
                 id: this.config.username,
@@ -175,40 +238,82 @@ export class Client {
         });
         this.registerResponseListener(Types.LOGIN, LoginSubTypes.LOGIN_PIN_RESPONSE, (body) => {
             this.authorization.login = body['loginpin'];
+            this.sessionStore.save(this.authorization, this.address, this.controlInfo);
             this.sendUnreliableRequest({}, Types.LOGIN, LoginSubTypes.MENU_REQUEST);
         });
-        this.registerResponseListener(Types.LOGIN, LoginSubTypes.MENU_RESPONSE, async (_) => {
-            const response = await this.sendDeferredRequest({
-                type: "query",
-                item: [{
-                    name: "all"
-                }]
-            }, Types.SETTING, SettingSubTypes.PUSH_QUERY_REQUEST, SettingSubTypes.PUSH_QUERY_RESPONSE, (_) => true);
-            await this.forceUpdatePushPreferences(response, "door");
-            await this.forceUpdatePushPreferences(response, "car");
-            await this.forceUpdatePushPreferences(response, "visitor"); // for camera
+        this.registerResponseListener(Types.LOGIN, LoginSubTypes.MENU_RESPONSE, async (body) => {
+            if(body === this.restoredMenu) {
+                // The stored menu only registers accessories, the server has not accepted the login PIN yet
+                return;
+            }
+            // The server has accepted the login PIN
+            this.resumingSession = false;
+            this.controlInfo = body['controlinfo'];
+            this.sessionStore.save(this.authorization, this.address, this.controlInfo);
+            this.sessionRecovery.complete();
+            const loginPin = this.authorization.login;
+            try {
+                const response = await this.sendDeferredRequest({
+                    type: "query",
+                    item: [{
+                        name: "all"
+                    }]
+                }, Types.SETTING, SettingSubTypes.PUSH_QUERY_REQUEST, SettingSubTypes.PUSH_QUERY_RESPONSE, (_) => true);
+                await this.forceUpdatePushPreferences(response, "door");
+                await this.forceUpdatePushPreferences(response, "car");
+                await this.forceUpdatePushPreferences(response, "visitor"); // for camera
+            } catch(e) {
+                this.log.warn(`Failed to update push preferences: ${e}`);
+            }
+            if(this.authorization.login !== loginPin) {
+                // The session has been replaced while updating push preferences
+                return;
+            }
 
             // registering fcm push token
-            this.sendUnreliableRequest({
-                dong: this.address.complex,
-                ho: this.address.room,
-                pushID: this.credentials.fcm.token,
-                phoneType: "android"
-            }, Types.LOGIN, LoginSubTypes.PUSH_REQUEST);
+            if(this.pushCredentials !== undefined) {
+                this.sendUnreliableRequest({
+                    dong: this.address.complex,
+                    ho: this.address.room,
+                    pushID: this.pushCredentials.getCredentials().fcm.token,
+                    phoneType: Client.PHONE_TYPE
+                }, Types.LOGIN, LoginSubTypes.PUSH_REQUEST);
+                this.unregisterStalePushTokens();
+            }
 
             this.isLoggedIn = true;
+            this.handler?.markReady();
             if(this.handler?.flushAllEnqueuedBuffers(this.getAuthorizationPIN())) {
                 this.log("Flushed entire enqueued request buffers");
             }
         });
+        this.registerResponseListener(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, (body) => {
+            this.deviceStates.update(body['item'] || [], DeviceStateSource.QUERY);
+        });
+        this.registerResponseListener(Types.DEVICE, DeviceSubTypes.INVOKE_RESPONSE, (body) => {
+            this.deviceStates.update(body['item'] || [], DeviceStateSource.INVOKE);
+        });
+        this.registerResponseListener(Types.DEVICE, DeviceSubTypes.WALL_SOCKET_QUERY_RESPONSE, (body) => {
+            this.deviceStates.update(body['item'] || [], DeviceStateSource.QUERY);
+        });
+        this.registerResponseListener(Types.DEVICE, DeviceSubTypes.WALL_SOCKET_INVOKE_RESPONSE, (body) => {
+            this.deviceStates.update(body['item'] || [], DeviceStateSource.INVOKE);
+        });
+        this.registerResponseListener(Types.DEVICE, DeviceSubTypes.INVOKE_NOTIFICATION, (body) => {
+            this.deviceStates.update(body['item'] || [], DeviceStateSource.NOTIFICATION);
+        });
         this.registerResponseListener(Types.LOGIN, LoginSubTypes.WALL_PAD_RESPONSE, (_) => {
             this.log('Certified Wall pad PIN');
+            this.finishWallPadCertification();
             this.sendCertificationRequest();
         });
     }
 
     registerErrorListeners() {
         this.registerErrorListener(Errors.UNCERTIFIED_DEVICE, () => {
+            if(this.abandonResumedSession(Errors.UNCERTIFIED_DEVICE)) {
+                return;
+            }
             this.sendUnreliableRequest({
                 id: this.config.username,
                 pw: this.config.password,
@@ -219,6 +324,7 @@ export class Client {
             this.handleWallPadInput();
         });
         this.registerErrorListener(Errors.INVALID_CERTIFICATION_NUMBER, () => {
+            this.log.error("The wall-pad PIN is not valid. Requesting a new PIN to the wall pad...");
             this.handleWallPadInput();
         });
         this.registerErrorListener(Errors.INVALID_USERNAME_AND_PASSWORD, () => {
@@ -227,6 +333,115 @@ export class Client {
         this.registerErrorListener(Errors.REGISTRATION_NOT_COMPLETED, () => {
             this.handleWallPadInput();
         });
+        this.registerErrorListener(Errors.INVALID_LOGIN_PIN, () => {
+            if(!this.abandonResumedSession(Errors.INVALID_LOGIN_PIN)) {
+                this.sessionRecovery.begin(Errors.INVALID_LOGIN_PIN);
+            }
+        });
+        this.registerErrorListener(Errors.LOGGED_OUT_TIMEOUT, () => {
+            if(!this.abandonResumedSession(Errors.LOGGED_OUT_TIMEOUT)) {
+                this.sessionRecovery.begin(Errors.LOGGED_OUT_TIMEOUT);
+            }
+        });
+    }
+
+    /**
+     * Resumes the stored session without repeating the whole login flow.
+     * The connection becomes ready only once the server has accepted the stored PINs with a menu response.
+     */
+    private async resumeSession(session: PersistedSession) {
+        this.resumingSession = true;
+        if(this.authorization.login.length === 8) {
+            this.log("Resuming the stored session, fetching menus...");
+            this.sendUnreliableRequest({}, Types.LOGIN, LoginSubTypes.MENU_REQUEST);
+            if(session.controlInfo) {
+                await this.restoreMenu(session.controlInfo);
+            }
+        } else {
+            this.log("Resuming the stored certification, logging in...");
+            this.sendUnreliableRequest({
+                id: this.config.username,
+                pw: this.config.password,
+                certpin: this.authorization.certification
+            }, Types.LOGIN, LoginSubTypes.LOGIN_PIN_REQUEST);
+        }
+    }
+
+    /**
+     * Delivers the stored menu to the listeners, so that accessories are registered before the server responds with a fresh menu
+     */
+    private async restoreMenu(controlInfo: ControlInfo) {
+        const packet = Packet.create({
+            controlinfo: controlInfo
+        }, this.getAuthorizationPIN(), Types.LOGIN, LoginSubTypes.MENU_RESPONSE, 3, 1);
+        this.restoredMenu = packet.getJSONBody();
+        try {
+            await this.handler?.handlePacket(packet);
+        } finally {
+            this.restoredMenu = undefined;
+        }
+    }
+
+    /**
+     * Stale PINs of the stored session are rejected with various errors,
+     * which must not revoke the certification of the device as the whole login flow does.
+     *
+     * @return true if the stored session has been abandoned for the whole login flow
+     */
+    private abandonResumedSession(error: Errors): boolean {
+        if(!this.resumingSession) {
+            return false;
+        }
+        this.resumingSession = false;
+        this.log.warn(`The stored session has been rejected by the server (${Errors[error]}). Logging in again...`);
+        this.relogin();
+        return true;
+    }
+
+    private relogin() {
+        this.sessionStore.clear();
+        this.authorization.certification = '00000000';
+        this.authorization.login = '';
+        this.isLoggedIn = false;
+        this.sendCertificationRequest();
+    }
+
+    private async unregisterStalePushTokens() {
+        const pushCredentials = this.pushCredentials;
+        if(pushCredentials === undefined) {
+            return;
+        }
+        for(const token of pushCredentials.getStaleTokens()) {
+            try {
+                // NOTE: a push token registered with unknown phone type is no longer notified by the complex
+                await this.sendDeferredRequest({
+                    dong: this.address.complex,
+                    ho: this.address.room,
+                    pushID: token,
+                    phoneType: Client.UNREGISTERED_PHONE_TYPE
+                }, Types.LOGIN, LoginSubTypes.PUSH_REQUEST, LoginSubTypes.PUSH_RESPONSE);
+                pushCredentials.removeStaleToken(token);
+                this.log.debug("Unregistered a stale push token");
+            } catch(e) {
+                this.log.warn(`Failed to unregister a stale push token: ${e}`);
+            }
+        }
+    }
+
+    private handlePushNotification(notification: PushNotification) {
+        const pushData: PushData = {
+            from: notification.from,
+            priority: notification.priority,
+            title: notification.data.title,
+            message: notification.data.message,
+            reserved: notification.data.data3
+        };
+        this.log.debug(`<=== PUSH(Type: ${notification.data.data1}, Sub Type: ${notification.data.data2}) :: ${JSON.stringify(pushData)}`);
+        for(const eventListener of this.pushEventListeners) {
+            if(eventListener.type === parseInt(notification.data.data1) && eventListener.subType == parseInt(notification.data.data2)) {
+                eventListener.callback(pushData);
+            }
+        }
     }
 
     requestForWallPad() {
@@ -240,24 +455,31 @@ export class Client {
 
     handleWallPadInput() {
         this.requestForWallPad();
-
-        let wallPadNumber;
-        try {
-            wallPadNumber = readlineSync.question('Enter wall-pad PIN: ');
-        } catch(e) {
-            this.log.error("##");
-            this.log.error("## Reading wall-pad number in terminal is not available.");
-            this.log.error("## Run homebridge in inline mode.");
-            this.log.error("##");
+        if(this.wallPadReceiver.isReceiving()) {
             return;
         }
+        const interval = this.config.wallPad?.retryInterval || WallPadPinReceiver.DEFAULT_RETRY_INTERVAL;
+        this.approvalTimer = setInterval(() => {
+            this.log.info("Still waiting for the wall-pad PIN. Requesting a new PIN to the wall pad...");
+            this.requestForWallPad();
+        }, interval);
+        this.wallPadReceiver.start((pin, source) => {
+            this.log.info(`Received wall-pad PIN from ${source}. Verifying...`);
+            this.sendUnreliableRequest({
+                dong: this.address.complex,
+                ho: this.address.room,
+                id: this.config.username,
+                num: pin
+            }, Types.LOGIN, LoginSubTypes.WALL_PAD_REQUEST);
+        });
+    }
 
-        this.sendUnreliableRequest({
-            dong: this.address.complex,
-            ho: this.address.room,
-            id: this.config.username,
-            num: String(wallPadNumber)
-        }, Types.LOGIN, LoginSubTypes.WALL_PAD_REQUEST);
+    private finishWallPadCertification() {
+        if(this.approvalTimer) {
+            clearInterval(this.approvalTimer);
+            this.approvalTimer = undefined;
+        }
+        this.wallPadReceiver.stop();
     }
 
     sendCertificationRequest() {
@@ -268,78 +490,71 @@ export class Client {
         }, Types.LOGIN, LoginSubTypes.CERTIFICATION_PIN_REQUEST);
     }
 
-    async prepareService() {
-        fcm.listen({ ...this.credentials, persistentIds: [] }, (data: any) => {
-            const orig = data.notification;
-            const pushData: PushData = {
-                from: orig.from,
-                priority: orig.priority,
-                title: orig.data.title,
-                message: orig.data.message,
-                reserved: orig.data.data3
-            };
-            this.log.debug(`<=== PUSH(Type: ${orig.data.data1}, Sub Type: ${orig.data.data2}) :: ${JSON.stringify(pushData)}`);
-            for(const eventListener of this.pushEventListeners) {
-                if(eventListener.type === parseInt(orig.data.data1) && eventListener.subType == parseInt(orig.data.data2)) {
-                    eventListener.callback(pushData);
-                }
+    async prepareService(complex?: Complex, menuItems?: MenuItem[]) {
+        for(const transport of this.pushTransports) {
+            try {
+                await transport.start((notification) => this.handlePushNotification(notification));
+            } catch(e) {
+                this.log.error(`Failed to start ${transport.name} push transport: ${e}`);
             }
-        });
+        }
 
         this.log('Looking for complex info...');
-        this.complex = await Utils.findMatchedComplex(this.config.region, this.config.complex);
-        this.menuItems = await Utils.fetchSupportedMenus(this.complex);
+        this.complex = complex || await Utils.findMatchedComplex(this.config.region, this.config.complex);
+        this.menuItems = menuItems || await Utils.fetchSupportedMenus(this.complex);
         this.log(`Complex info about (${this.config.complex}) has found.`);
         this.handler = new NetworkHandler(this.log, this.complex);
+        if(this.config.debug?.capturePackets) {
+            const recorder = new PacketRecorder(this.log, PacketRecorder.createFilePath(this.config.storagePath));
+            this.handler.setRecorder(recorder);
+            this.log(`Recording packets into ${recorder.getPath()}`);
+        }
+        // NOTE: the ui-server holds the semaphore while it is logged in to the server with the same account
+        this.handler.connectionGuard = () => !this.semaphore.isLocked();
         this.handler.onConnected = () => {
-            this.sendCertificationRequest();
+            // NOTE: the stored session is used only once on startup, reconnections take the whole login flow
+            const session = this.restoredSession;
+            this.restoredSession = undefined;
+            if(session) {
+                this.resumeSession(session);
+            } else {
+                this.sendCertificationRequest();
+            }
         };
         this.handler.onDisconnected = () => {
-            if(this.isRefreshing) {
-                return;
-            }
             this.isLoggedIn = false;
-            if(this.semaphore.isLocked()) {
-                this.enqueueEstablishment();
-                return;
-            }
-            this.log("Connection broken. Reconnect to the server...");
-            this.handler?.handle();
+            this.resumingSession = false;
         };
-    }
-
-    enqueueEstablishment() {
-        if(this.enqueuedEstablishment) {
-            return;
-        }
-        this.enqueuedEstablishment = setInterval(() => {
-            if(this.semaphore.isLocked()) {
-                this.log.debug("Establishing connection failed due to semaphore from ui-server");
-                return;
+        this.heartbeat = new Heartbeat(this.log, this.handler, () => this.getAuthorizationPIN(), this.config.heartbeat);
+        this.handler.registerStateListener((state, previousState) => {
+            if(state === ConnectionState.BACKING_OFF && previousState !== ConnectionState.CONNECTING) {
+                this.log("Connection broken. Reconnect to the server...");
+            } else if(state === ConnectionState.READY) {
+                this.log("Connection to the server is ready");
             }
-            clearInterval(this.enqueuedEstablishment);
-            this.enqueuedEstablishment = undefined;
-
-            this.handler?.handle();
-        }, 5000);
+            this.log.debug(`Connection state has changed: ${previousState} -> ${state}`);
+        });
     }
 
     refresh() {
         if(this.semaphore.isLocked()) {
-            this.enqueueEstablishment();
+            this.log.debug("Refreshing connection is deferred due to semaphore from ui-server");
             return;
         }
         this.log.debug("Refreshing MMF client service...");
-        this.isRefreshing = true;
         this.handler?.handle();
-        setTimeout(() => {
-            this.isRefreshing = false;
-            this.log("Refreshing has been finished");
-        }, 5000);
     }
 
-    isNetworkRefreshing() {
-        return this.isRefreshing;
+    async replayCapture(path: string): Promise<number> {
+        if(this.handler === undefined) {
+            return 0;
+        }
+        const replayer = new PacketReplayer(this.handler);
+        return await replayer.replay(PacketReplayer.load(path));
+    }
+
+    getComplex(): Complex | undefined {
+        return this.complex;
     }
 
     isDeviceSupported(deviceMenuName: string): boolean {
@@ -0,0 +1,127 @@
+import {DeviceItem} from "./interfaces/messages";
+import {LoggerBase} from "./network";
+
+export enum DeviceStateSource {
+    QUERY = "query",
+    INVOKE = "invoke",
+    NOTIFICATION = "notification",
+    PUSH = "push"
+}
+
+export interface DeviceStateChange {
+    device: string
+    uid: string
+    source: DeviceStateSource
+    /**
+     * The item as received, some responses carry only a part of arguments
+     */
+    item: DeviceItem
+    /**
+     * The latest known state merged from every item received so far
+     */
+    state: DeviceItem
+    previous?: DeviceItem
+    changedKeys: string[]
+}
+
+export type DeviceStateCallback = (changes: DeviceStateChange[]) => void;
+
+interface DeviceStateListener {
+    device?: string
+    callback: DeviceStateCallback
+}
+
+interface StoredDeviceState {
+    state: DeviceItem
+    updatedAt: number
+}
+
+/**
+ * The single source of device states keyed by device type and uid.
+ * It is fed by the client from the device responses, and notifies the changes grouped by device type.
+ * Every update is notified even if nothing has changed, since accessories are initialized by queries.
+ */
+export class DeviceStateStore {
+
+    private readonly states: { [key: string]: StoredDeviceState } = {};
+    private readonly listeners: DeviceStateListener[] = [];
+
+    constructor(private readonly log: LoggerBase) {
+    }
+
+    static key(device: string, uid: string): string {
+        return `${device}/${uid}`;
+    }
+
+    get(device: string, uid: string): DeviceItem | undefined {
+        const stored = this.states[DeviceStateStore.key(device, uid)];
+        return stored ? { ...stored.state } : undefined;
+    }
+
+    getUpdatedAt(device: string, uid: string): number | undefined {
+        return this.states[DeviceStateStore.key(device, uid)]?.updatedAt;
+    }
+
+    getAll(device?: string): DeviceItem[] {
+        return Object.values(this.states)
+            .map((stored) => stored.state)
+            .filter((state) => device === undefined || state.device === device)
+            .map((state) => ({ ...state }));
+    }
+
+    /**
+     * @param callback Listener of the changes
+     * @param device Device type to listen, every device type if not specified
+     */
+    subscribe(callback: DeviceStateCallback, device?: string) {
+        this.listeners.push({
+            device: device,
+            callback: callback
+        });
+    }
+
+    update(items: DeviceItem[], source: DeviceStateSource): DeviceStateChange[] {
+        const changes: DeviceStateChange[] = [];
+        for(const item of items) {
+            if(!item || !item.device || !item.uid) {
+                continue;
+            }
+            const key = DeviceStateStore.key(item.device, item.uid);
+            const previous = this.states[key]?.state;
+            const state: DeviceItem = { ...(previous || {}), ...item };
+            const changedKeys = Object.keys(state).filter((name) => !previous || previous[name] !== state[name]);
+            this.states[key] = {
+                state: state,
+                updatedAt: Date.now()
+            };
+            changes.push({
+                device: item.device,
+                uid: item.uid,
+                source: source,
+                item: { ...item },
+                state: { ...state },
+                previous: previous ? { ...previous } : undefined,
+                changedKeys: changedKeys
+            });
+        }
+        if(changes.length) {
+            this.notify(changes);
+        }
+        return changes;
+    }
+
+    private notify(changes: DeviceStateChange[]) {
+        for(const listener of this.listeners) {
+            const filtered = listener.device === undefined ? changes : changes.filter((change) => change.device === listener.device);
+            if(filtered.length === 0) {
+                continue;
+            }
+            try {
+                listener.callback(filtered);
+            } catch(e) {
+                this.log.error(`Device state listener of ${listener.device || "every device"} has failed: ${e}`);
+            }
+        }
+    }
+
+}
@@ -0,0 +1,44 @@
+import {Errors, SubTypes, Types} from "./fields";
+import {Utils} from "./utils";
+
+export class DeferredRequestTimeoutError extends Error {
+
+    constructor(readonly type: Types,
+                readonly subType: SubTypes,
+                readonly timeout: number) {
+        super(`Request ${Types[type]}::${Utils.findSubType(type)[subType]} has timed out after ${timeout}ms`);
+        this.name = "DeferredRequestTimeoutError";
+    }
+
+}
+
+export class DeferredRequestError extends Error {
+
+    constructor(readonly error: Errors,
+                readonly type: Types,
+                readonly subType: SubTypes) {
+        super(`Request ${Types[type]}::${Utils.findSubType(type)[subType]} has failed with ${Errors[error]}`);
+        this.name = "DeferredRequestError";
+    }
+
+}
+
+export class MessageSchemaError extends Error {
+
+    constructor(readonly type: Types,
+                readonly subType: SubTypes,
+                readonly violations: string[]) {
+        super(`Response ${Types[type]}::${Utils.findSubType(type)[subType]} violates its schema: ${violations.join(", ")}`);
+        this.name = "MessageSchemaError";
+    }
+
+}
+
+export class SessionRecoveryError extends Error {
+
+    constructor(readonly reason: string) {
+        super(`Session recovery has failed: ${reason}`);
+        this.name = "SessionRecoveryError";
+    }
+
+}
@@ -0,0 +1,82 @@
+import {ConnectionState, LoggerBase, NetworkHandler} from "./network";
+import {LoginSubTypes, Types} from "./fields";
+import {DeferredRequestTimeoutError} from "./errors";
+import {SessionRecovery} from "./session-recovery";
+import Timeout = NodeJS.Timeout;
+
+export interface HeartbeatConfig {
+    /**
+     * Interval of the ALIVE_REQUEST in milliseconds
+     */
+    interval?: number
+}
+
+/**
+ * Sends ALIVE_REQUEST periodically while the connection is ready.
+ * A missed ALIVE_RESPONSE is considered as a dead link, and the connection will be re-established.
+ */
+export class Heartbeat {
+
+    public static DEFAULT_INTERVAL = 60 * 1000;
+    public static DEFAULT_TIMEOUT = 10 * 1000;
+
+    private readonly interval: number;
+    private timer?: Timeout;
+    private lastAcknowledged = Date.now();
+
+    constructor(private readonly log: LoggerBase,
+                private readonly handler: NetworkHandler,
+                private readonly pinProvider: () => string,
+                config: HeartbeatConfig = {},
+                private readonly timeout = Heartbeat.DEFAULT_TIMEOUT) {
+        this.interval = config.interval && config.interval > 0 ? config.interval : Heartbeat.DEFAULT_INTERVAL;
+        this.handler.registerStateListener((state) => {
+            if(state === ConnectionState.READY) {
+                this.lastAcknowledged = Date.now();
+                this.start();
+            } else {
+                this.stop();
+            }
+        });
+    }
+
+    getLastAcknowledged(): number {
+        return this.lastAcknowledged;
+    }
+
+    private start() {
+        this.stop();
+        this.timer = setInterval(() => this.beat(), this.interval);
+    }
+
+    private stop() {
+        if(this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private async beat() {
+        try {
+            await this.handler.sendDeferredRequest({}, this.pinProvider(), Types.LOGIN, LoginSubTypes.ALIVE_REQUEST, LoginSubTypes.ALIVE_RESPONSE, undefined, this.timeout);
+            this.lastAcknowledged = Date.now();
+        } catch(e) {
+            if(this.handler.getState() !== ConnectionState.READY) {
+                // The connection has been changed while waiting for the response
+                return;
+            }
+            if(SessionRecovery.isSessionError(e)) {
+                // The link is alive, the session is being recovered by the client
+                return;
+            }
+            if(e instanceof DeferredRequestTimeoutError) {
+                this.log.warn(`Server did not respond to heartbeat in ${this.timeout}ms. Reconnecting to the server...`);
+            } else {
+                this.log.warn(`Heartbeat has failed: ${e}. Reconnecting to the server...`);
+            }
+            this.stop();
+            this.handler.handle();
+        }
+    }
+
+}
@@ -1,4 +1,9 @@
 import {SemanticVersion} from "../utils";
+import {RetryConfig} from "../retry";
+import {WallPadConfig} from "../wall-pad";
+import {PushConfig} from "../push-transport";
+import {CapabilityConfig} from "../capabilities";
+import {HeartbeatConfig} from "../heartbeat";
 
 export interface DaelimConfig {
 
@@ -8,10 +13,108 @@ export interface DaelimConfig {
     password: string
     uuid: string
     version: SemanticVersion
+    storagePath: string
     devices: Device[]
+    retry?: RetryConfig
+    heartbeat?: HeartbeatConfig
+    wallPad?: WallPadConfig
+    push?: PushConfig
+    polling?: PollingConfig
+    wallSocket?: WallSocketConfig
+    heaterCooler?: HeaterCoolerConfig
+    fan?: FanConfig
+    debug?: DebugConfig
 
 }
 
+/**
+ * Intervals of polling device states in seconds for each device type, 0 disables polling
+ */
+export interface PollingConfig {
+    light?: number
+    wallsocket?: number
+    heating?: number
+    cooling?: number
+    fan?: number
+    gas?: number
+}
+
+export interface WallSocketConfig {
+    /**
+     * Metered outlets consuming power above the threshold in watts are considered as in use
+     */
+    inUseThreshold?: number
+    /**
+     * Exposes the switch of standby power auto cut-off.
+     * Disabled by default since the arguments written by the switch have not been verified on every complex.
+     */
+    standbyCutOff?: boolean
+    /**
+     * Outlets consuming power below the threshold in watts are cut off by the wall pad while standby power auto cut-off is enabled
+     */
+    standbyThreshold?: number
+}
+
+export interface HeaterCoolerConfig {
+    /**
+     * Combines the heating and the cooling devices of the rooms having the same name into an accessory
+     */
+    combineRooms?: boolean
+    rooms?: HeaterCoolerRoom[]
+    /**
+     * Adds a TemperatureSensor service of the room temperature to the heating and the cooling accessories
+     */
+    temperatureSensor?: boolean
+    /**
+     * Interval of the reservation heating in hours
+     */
+    reservationInterval?: number
+    /**
+     * Duration of the timer heating in hours
+     */
+    timerDuration?: number
+}
+
+/**
+ * Explicit pairing of the heating and the cooling devices by their device ids
+ */
+export interface HeaterCoolerRoom {
+    name: string
+    heating: string
+    cooling: string
+}
+
+export interface FanConfig {
+    /**
+     * Represents the ventilator as an air purifier, which exposes the modes of heat-recovery ventilators
+     */
+    airPurifier?: boolean
+    /**
+     * Values of arg3 for the ventilation modes, which must be taken from the captured packets of the complex.
+     * A mode is exposed only if its value is configured and has been reported by the ventilator.
+     */
+    modes?: VentilationModeValues
+    /**
+     * Value of arg4 reserving the off-timer, which must be taken from the captured packets of the complex.
+     * The off-timer is exposed only if the value is configured and has been reported by the ventilator.
+     */
+    offTimer?: string
+}
+
+export interface VentilationModeValues {
+    auto?: string
+    bypass?: string
+    sleep?: string
+}
+
+export interface DebugConfig {
+    capturePackets?: boolean
+    /**
+     * Path of a capture file to replay into the listeners instead of connecting to the server
+     */
+    replayCapture?: string
+}
+
 export interface Device {
     displayName: string
     name: string
@@ -20,6 +123,8 @@ export interface Device {
     disabled: boolean
     camera?: CameraConfig
     duration?: DeviceDuration
+    wallSocket?: WallSocketConfig
+    capabilities?: CapabilityConfig
 }
 
 export interface DeviceDuration {
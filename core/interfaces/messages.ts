@@ -0,0 +1,243 @@
+import {DeviceSubTypes, ElevatorCallSubTypes, GuardSubTypes, InfoSubTypes, LoginSubTypes, SettingSubTypes, SubTypes, Types} from "../fields";
+
+export type EmptyBody = {};
+
+/* LOGIN */
+
+export interface CertificationPinRequest {
+    id: string
+    pw: string
+    UUID: string
+}
+
+export interface CertificationPinResponse {
+    certpin: string
+    dong: string
+    ho: string
+}
+
+export interface LoginPinRequest {
+    id: string
+    pw: string
+    certpin: string
+}
+
+export interface LoginPinResponse {
+    loginpin: string
+}
+
+export interface ControlInfoDevice {
+    uid: string
+    uname: string
+    [key: string]: string
+}
+
+export interface ControlInfo {
+    [deviceType: string]: ControlInfoDevice[]
+}
+
+export interface MenuResponse {
+    controlinfo: ControlInfo
+}
+
+export interface PushRegistrationRequest {
+    dong: string
+    ho: string
+    pushID: string
+    phoneType: string
+}
+
+export interface DeleteCertificationRequest {
+    id: string
+    pw: string
+}
+
+export interface ApprovalRequest {
+    dong: string
+    ho: string
+    id: string
+    auth: number
+}
+
+export interface ApprovalDeleteRequest {
+    id: string
+}
+
+export interface WallPadRequest {
+    dong: string
+    ho: string
+    id: string
+    num: string
+}
+
+/* GUARD */
+
+export interface GuardStateResponse {
+    // NOTE: fields of guard state are not consumed yet
+    [key: string]: unknown
+}
+
+/* DEVICE */
+
+export interface DeviceTarget {
+    device: string
+    uid: string
+}
+
+export interface DeviceItem extends DeviceTarget {
+    arg1?: string
+    arg2?: string
+    arg3?: string
+    arg4?: string
+    arg5?: string
+    [key: string]: string | undefined
+}
+
+export interface DeviceQueryRequest {
+    type: "query"
+    item: DeviceTarget[]
+}
+
+export interface DeviceInvokeRequest {
+    type: "invoke"
+    item: DeviceItem[]
+}
+
+export interface DeviceResponse {
+    item: DeviceItem[]
+}
+
+/* INFO */
+
+export interface VisitorListRequest {
+    page: number
+    listcount: number
+}
+
+export interface VisitorHistory {
+    index: string
+    location: string
+    InputDate: string
+    filetype: string
+    new: string
+}
+
+export interface VisitorListResponse {
+    list: VisitorHistory[]
+}
+
+export interface VisitorCheckRequest {
+    index: number
+    read: string
+}
+
+export interface VisitorCheckResponse {
+    index: string
+    image: string
+}
+
+/* SETTING */
+
+export interface PushPreference {
+    name: string
+    arg1?: string
+}
+
+export interface PushQueryRequest {
+    type: "query"
+    item: { name: string }[]
+}
+
+export interface PushSettingRequest {
+    type: "setting"
+    item: PushPreference[]
+}
+
+export interface PushPreferencesResponse {
+    item: PushPreference[]
+}
+
+/* CATALOGUE */
+
+export interface RequestBodies {
+    [Types.LOGIN]: {
+        [LoginSubTypes.CERTIFICATION_PIN_REQUEST]: CertificationPinRequest
+        [LoginSubTypes.LOGIN_PIN_REQUEST]: LoginPinRequest
+        [LoginSubTypes.MENU_REQUEST]: EmptyBody
+        [LoginSubTypes.PUSH_REQUEST]: PushRegistrationRequest
+        [LoginSubTypes.ALIVE_REQUEST]: EmptyBody
+        [LoginSubTypes.DELETE_CERTIFICATION_REQUEST]: DeleteCertificationRequest
+        [LoginSubTypes.APPROVAL_REQUEST]: ApprovalRequest
+        [LoginSubTypes.WALL_PAD_REQUEST]: WallPadRequest
+        [LoginSubTypes.APPROVAL_DELETE_REQUEST]: ApprovalDeleteRequest
+    }
+    [Types.GUARD]: {
+        [GuardSubTypes.GUARD_STATE_REQUEST]: EmptyBody
+    }
+    [Types.DEVICE]: {
+        [DeviceSubTypes.QUERY_REQUEST]: DeviceQueryRequest
+        [DeviceSubTypes.INVOKE_REQUEST]: DeviceInvokeRequest
+        [DeviceSubTypes.WALL_SOCKET_QUERY_REQUEST]: DeviceQueryRequest
+        [DeviceSubTypes.WALL_SOCKET_INVOKE_REQUEST]: DeviceInvokeRequest
+    }
+    [Types.INFO]: {
+        [InfoSubTypes.VISITOR_LIST_REQUEST]: VisitorListRequest
+        [InfoSubTypes.VISITOR_CHECK_REQUEST]: VisitorCheckRequest
+    }
+    [Types.SETTING]: {
+        [SettingSubTypes.PUSH_QUERY_REQUEST]: PushQueryRequest
+        [SettingSubTypes.PUSH_SETTING_REQUEST]: PushSettingRequest
+    }
+    [Types.ELEVATOR_CALL]: {
+        [ElevatorCallSubTypes.CALL_REQUEST]: EmptyBody
+    }
+}
+
+export interface ResponseBodies {
+    [Types.LOGIN]: {
+        [LoginSubTypes.CERTIFICATION_PIN_RESPONSE]: CertificationPinResponse
+        [LoginSubTypes.LOGIN_PIN_RESPONSE]: LoginPinResponse
+        [LoginSubTypes.MENU_RESPONSE]: MenuResponse
+        [LoginSubTypes.PUSH_RESPONSE]: EmptyBody
+        [LoginSubTypes.ALIVE_RESPONSE]: EmptyBody
+        [LoginSubTypes.DELETE_CERTIFICATION_RESPONSE]: EmptyBody
+        [LoginSubTypes.APPROVAL_RESPONSE]: EmptyBody
+        [LoginSubTypes.WALL_PAD_RESPONSE]: EmptyBody
+        [LoginSubTypes.APPROVAL_DELETE_RESPONSE]: EmptyBody
+    }
+    [Types.GUARD]: {
+        [GuardSubTypes.GUARD_STATE_RESPONSE]: GuardStateResponse
+    }
+    [Types.DEVICE]: {
+        [DeviceSubTypes.QUERY_RESPONSE]: DeviceResponse
+        [DeviceSubTypes.INVOKE_RESPONSE]: DeviceResponse
+        [DeviceSubTypes.INVOKE_NOTIFICATION]: DeviceResponse
+        [DeviceSubTypes.WALL_SOCKET_QUERY_RESPONSE]: DeviceResponse
+        [DeviceSubTypes.WALL_SOCKET_INVOKE_RESPONSE]: DeviceResponse
+    }
+    [Types.INFO]: {
+        [InfoSubTypes.VISITOR_LIST_RESPONSE]: VisitorListResponse
+        [InfoSubTypes.VISITOR_CHECK_RESPONSE]: VisitorCheckResponse
+    }
+    [Types.SETTING]: {
+        [SettingSubTypes.PUSH_QUERY_RESPONSE]: PushPreferencesResponse
+        [SettingSubTypes.PUSH_SETTING_RESPONSE]: PushPreferencesResponse
+    }
+    [Types.ELEVATOR_CALL]: {
+        [ElevatorCallSubTypes.CALL_RESPONSE]: EmptyBody
+    }
+}
+
+/**
+ * Body type of a request, or `any` if the pair of types is not catalogued
+ */
+export type RequestBody<T extends Types, S extends SubTypes> = T extends keyof RequestBodies
+    ? S extends keyof RequestBodies[T] ? RequestBodies[T][S] : any
+    : any;
+
+/**
+ * Body type of a response, or `any` if the pair of types is not catalogued
+ */
+export type ResponseBody<T extends Types, S extends SubTypes> = T extends keyof ResponseBodies
+    ? S extends keyof ResponseBodies[T] ? ResponseBodies[T][S] : any
+    : any;
@@ -0,0 +1,141 @@
+import {DeviceItem, DeviceResponse} from "./interfaces/messages";
+import Timeout = NodeJS.Timeout;
+
+export type InvokeSender = (items: DeviceItem[]) => Promise<DeviceResponse>;
+
+interface PendingInvoke {
+    item: DeviceItem
+    resolve: (response: DeviceResponse) => void
+    reject: (reason?: any) => void
+}
+
+interface InvokeBatch {
+    invokes: PendingInvoke[]
+    timer: Timeout
+}
+
+/**
+ * Coalesces invoke requests issued within a short window into as few packets as possible per device type.
+ * Each caller receives its own slice of the response.
+ */
+export class InvokeDispatcher {
+
+    public static DEFAULT_WINDOW = 50;
+
+    private readonly batches: { [deviceType: string]: InvokeBatch } = {};
+
+    constructor(private readonly sender: InvokeSender,
+                private readonly window = InvokeDispatcher.DEFAULT_WINDOW) {
+    }
+
+    dispatch(item: DeviceItem): Promise<DeviceResponse> {
+        return new Promise<DeviceResponse>((resolve, reject) => {
+            let batch = this.batches[item.device];
+            if(batch === undefined) {
+                batch = {
+                    invokes: [],
+                    timer: setTimeout(() => this.flush(item.device), this.window)
+                };
+                this.batches[item.device] = batch;
+            }
+            batch.invokes.push({
+                item: item,
+                resolve: resolve,
+                reject: reject
+            });
+        });
+    }
+
+    private async flush(deviceType: string) {
+        const batch = this.batches[deviceType];
+        if(batch === undefined) {
+            return;
+        }
+        delete this.batches[deviceType];
+
+        const items = batch.invokes.map((invoke) => invoke.item);
+        const packetIndices = InvokeDispatcher.assignPackets(items);
+        const packets = InvokeDispatcher.mergeItems(items);
+        let sentPackets = 0;
+        try {
+            for(const packet of packets) {
+                const response = await this.sender(packet);
+                const responseItems = response.item || [];
+                batch.invokes.forEach((invoke, i) => {
+                    if(packetIndices[i] !== sentPackets) {
+                        return;
+                    }
+                    invoke.resolve({
+                        ...response,
+                        item: responseItems.filter((item) => InvokeDispatcher.isSameDevice(item, invoke.item))
+                    });
+                });
+                sentPackets++;
+            }
+        } catch(e) {
+            batch.invokes.forEach((invoke, i) => {
+                if(packetIndices[i] >= sentPackets) {
+                    invoke.reject(e);
+                }
+            });
+        }
+    }
+
+    /**
+     * Multiple invokes to the same device are merged into one item.
+     * Invokes conflicting with the merged arguments are deferred to the following packets, so that no invoke is dropped.
+     *
+     * @return Packets to send in order
+     */
+    static mergeItems(items: DeviceItem[]): DeviceItem[][] {
+        const packets: DeviceItem[][] = [];
+        const packetIndices = InvokeDispatcher.assignPackets(items);
+        items.forEach((item, i) => {
+            const packet = packets[packetIndices[i]] || (packets[packetIndices[i]] = []);
+            const index = packet.findIndex((other) => InvokeDispatcher.isSameDevice(other, item));
+            if(index === -1) {
+                packet.push({ ...item });
+            } else {
+                packet[index] = { ...packet[index], ...item };
+            }
+        });
+        return packets;
+    }
+
+    /**
+     * @return Index of the packet to send each item with
+     */
+    private static assignPackets(items: DeviceItem[]): number[] {
+        const packets: DeviceItem[][] = [[]];
+        return items.map((item) => {
+            const packet = packets[packets.length - 1];
+            const index = packet.findIndex((other) => InvokeDispatcher.isSameDevice(other, item));
+            if(index === -1) {
+                packet.push({ ...item });
+            } else if(InvokeDispatcher.conflicts(packet[index], item)) {
+                packets.push([{ ...item }]);
+            } else {
+                packet[index] = { ...packet[index], ...item };
+            }
+            return packets.length - 1;
+        });
+    }
+
+    private static conflicts(a: DeviceItem, b: DeviceItem): boolean {
+        return Object.keys(b).some((key) => a[key] !== undefined && a[key] !== b[key]);
+    }
+
+    static isSameDevice(a: DeviceItem, b: DeviceItem): boolean {
+        return a.device === b.device && a.uid === b.uid;
+    }
+
+    /**
+     * Concurrent packets may share some of the devices, therefore the response must cover exactly the devices of the packet
+     */
+    static matches(items: DeviceItem[], response: DeviceResponse): boolean {
+        const responseItems = response.item || [];
+        return items.every((item) => responseItems.some((responseItem) => InvokeDispatcher.isSameDevice(item, responseItem)))
+            && responseItems.every((responseItem) => items.some((item) => InvokeDispatcher.isSameDevice(item, responseItem)));
+    }
+
+}
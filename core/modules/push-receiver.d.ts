@@ -35,6 +35,7 @@ declare module "push-receiver" {
     export class Client extends EventEmitter {
         static init(): void;
         constructor(credentials: Credentials | CredentialsWithPersistentIds, persistentIds: string[]);
+        destroy(): void;
     }
 
     export type NotificationCallback = (data: NotificationData) => void;
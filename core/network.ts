@@ -4,9 +4,23 @@ import {Chunk} from "./chunk";
 import {Packet} from "./packet";
 import {Errors, SubTypes, Types} from "./fields";
 import {Complex} from "./interfaces/complex";
+import {PacketDirection, PacketRecorder, PacketReplayTarget} from "./recorder";
+import {DeferredRequestError, DeferredRequestTimeoutError, MessageSchemaError} from "./errors";
+import {normalizeResponse, validateResponse} from "./schemas";
+import {RequestBody, ResponseBody} from "./interfaces/messages";
+import Timeout = NodeJS.Timeout;
 
-export type ResponseCallback = (body: any) => void;
+export type ResponseCallback<B = any> = (body: B) => void;
 export type ErrorCallback = () => void;
+export type ConnectionStateCallback = (state: ConnectionState, previousState: ConnectionState) => void;
+
+export enum ConnectionState {
+    DISCONNECTED = "disconnected",
+    CONNECTING = "connecting",
+    AUTHENTICATING = "authenticating",
+    READY = "ready",
+    BACKING_OFF = "backing-off"
+}
 
 export interface LoggerBase {
     info(message: string, ...parameters: any[]): void;
@@ -40,6 +54,7 @@ interface DeferredRequest {
     matches?: (response: any) => boolean
 
     timestamp: number,
+    timer: Timeout,
     body: any
 }
 
@@ -47,34 +62,59 @@ interface EnqueuedRequest {
 
     body: any,
     type: Types,
-    subType: SubTypes
+    subType: SubTypes,
+    deferred?: DeferredRequest
+
+}
 
+export interface DeferredRequestStatistics {
+    sent: number
+    resolved: number
+    rejected: number
+    expired: number
 }
 
-export class NetworkHandler {
+export class NetworkHandler implements PacketReplayTarget {
+
+    public static DEFAULT_REQUEST_TIMEOUT = 10 * 1000;
+    public static CONNECT_TIMEOUT = 10 * 1000;
+    public static INITIAL_RECONNECT_DELAY = 1000;
+    public static MAX_RECONNECT_DELAY = 5 * 60 * 1000;
 
     private socket?: net.Socket;
     private readBuffers = new ArrayBuffer(0);
-    private isConnected = false;
+    private state = ConnectionState.DISCONNECTED;
+    private reconnectAttempts = 0;
+    private reconnectTimer?: Timeout;
+    private recorder?: PacketRecorder;
 
     private readonly log: LoggerBase;
     private readonly complex: Complex;
 
     private readonly listeners: ResponseListener[] = [];
     private readonly errorListeners: ErrorListener[] = [];
+    private readonly stateListeners: ConnectionStateCallback[] = [];
 
     private readonly deferredRequests: DeferredRequest[] = [];
     private readonly enqueuedRequests: EnqueuedRequest[] = [];
+    private readonly statistics: DeferredRequestStatistics = {
+        sent: 0,
+        resolved: 0,
+        rejected: 0,
+        expired: 0
+    };
 
     public onConnected?: () => void;
     public onDisconnected?: () => void;
+    public connectionGuard?: () => boolean;
+    public autoReconnect = true;
 
     constructor(log: LoggerBase, complex: Complex) {
         this.log = log;
         this.complex = complex;
     }
 
-    registerResponseListener(type: Types, subType: SubTypes, callback: ResponseCallback) {
+    registerResponseListener<T extends Types, S extends SubTypes>(type: T, subType: S, callback: ResponseCallback<ResponseBody<T, S>>) {
         this.listeners.push({
             type: type,
             subType: subType,
@@ -89,6 +129,34 @@ export class NetworkHandler {
         });
     }
 
+    registerStateListener(callback: ConnectionStateCallback) {
+        this.stateListeners.push(callback);
+    }
+
+    getState(): ConnectionState {
+        return this.state;
+    }
+
+    private setState(state: ConnectionState) {
+        if(this.state === state) {
+            return;
+        }
+        const previousState = this.state;
+        this.state = state;
+        for(const listener of this.stateListeners) {
+            listener(state, previousState);
+        }
+    }
+
+    private isConnected(): boolean {
+        return this.state === ConnectionState.AUTHENTICATING || this.state === ConnectionState.READY;
+    }
+
+    setRecorder(recorder?: PacketRecorder) {
+        this.recorder?.close();
+        this.recorder = recorder;
+    }
+
     private obfuscatePersonalInformation(body: any) {
         const deepcopy = JSON.parse(JSON.stringify(body));
         if("pw" in deepcopy) {
@@ -100,18 +168,19 @@ export class NetworkHandler {
         return deepcopy;
     }
 
-    sendUnreliableRequest(body: object, pin: string, type: Types, subType: SubTypes): boolean {
-        if(!this.isConnected || !this.socket) {
+    sendUnreliableRequest<T extends Types, S extends SubTypes>(body: RequestBody<T, S>, pin: string, type: T, subType: S): boolean {
+        if(!this.isConnected() || !this.socket) {
             return false;
         }
         this.log.debug(`===> ${JSON.stringify(this.obfuscatePersonalInformation(body))}`);
-        return this.socket?.write(Buffer.from(Packet.create(body, pin, type, subType, 1, 3).getBytes()));
+        const packet = Packet.create(body, pin, type, subType, 1, 3);
+        this.recorder?.record(PacketDirection.SENT, packet);
+        return this.socket?.write(Buffer.from(packet.getBytes()));
     }
 
-    sendDeferredRequest(body: any, pin: string, type: Types, fromSubType: SubTypes, toSubType: SubTypes, matches?: (response: any) => boolean): Promise<any> {
-        return new Promise<any>((resolve, reject) => {
-            this.sendUnreliableRequest(body, pin, type, fromSubType);
-            this.deferredRequests.push({
+    sendDeferredRequest<T extends Types, F extends SubTypes, R extends SubTypes>(body: RequestBody<T, F>, pin: string, type: T, fromSubType: F, toSubType: R, matches?: (response: ResponseBody<T, R>) => boolean, timeout = NetworkHandler.DEFAULT_REQUEST_TIMEOUT): Promise<ResponseBody<T, R>> {
+        return new Promise<ResponseBody<T, R>>((resolve, reject) => {
+            const request: DeferredRequest = {
                 resolve: resolve,
                 reject: reject,
                 type: type,
@@ -119,13 +188,51 @@ export class NetworkHandler {
                 toSubTypes: toSubType,
                 matches: matches,
                 timestamp: Date.now(),
+                timer: setTimeout(() => this.expireDeferredRequest(request, timeout), timeout),
                 body: body
-            });
+            };
+            this.deferredRequests.push(request);
+            this.statistics.sent++;
+            if(this.isConnected()) {
+                this.sendUnreliableRequest(body, pin, type, fromSubType);
+            } else {
+                // NOTE: requests issued while disconnected are sent once the connection has been re-established
+                this.enqueueDeferredRequest(request);
+            }
         });
     }
 
+    private removeDeferredRequest(request: DeferredRequest): boolean {
+        const index = this.deferredRequests.indexOf(request);
+        if(index === -1) {
+            return false;
+        }
+        this.deferredRequests.splice(index, 1);
+        clearTimeout(request.timer);
+
+        // NOTE: the request must not be sent again after reconnection since the caller already gave up
+        const enqueuedIndex = this.enqueuedRequests.findIndex((enqueued) => enqueued.deferred === request);
+        if(enqueuedIndex !== -1) {
+            this.enqueuedRequests.splice(enqueuedIndex, 1);
+        }
+        return true;
+    }
+
+    private expireDeferredRequest(request: DeferredRequest, timeout: number) {
+        if(!this.removeDeferredRequest(request)) {
+            return;
+        }
+        this.statistics.expired++;
+        this.log.debug('Deferred request has timed out for %dms (%d expired in total)', timeout, this.statistics.expired);
+        request.reject(new DeferredRequestTimeoutError(request.type, request.fromSubTypes, timeout));
+    }
+
+    getStatistics(): DeferredRequestStatistics {
+        return { ...this.statistics };
+    }
+
     flushAllEnqueuedBuffers(pin: string): boolean {
-        if(!this.isConnected || this.enqueuedRequests.length === 0) {
+        if(!this.isConnected() || this.enqueuedRequests.length === 0) {
             return false;
         }
         while(this.enqueuedRequests.length > 0) {
@@ -138,62 +245,155 @@ export class NetworkHandler {
     }
 
     disconnect() {
-        if(this.socket) {
-            this.socket.destroy();
-            this.socket = undefined;
+        this.clearReconnectTimer();
+        const connected = this.socket !== undefined;
+        this.destroySocket();
+        this.setState(ConnectionState.DISCONNECTED);
+        if(connected) {
+            this.notifyDisconnected();
         }
     }
 
+    /**
+     * Starts connecting to the server. Broken connections are re-established by itself with capped exponential backoff
+     * until `disconnect()` is called.
+     */
     handle() {
-        this.disconnect();
-        this.socket = net.connect({
+        this.clearReconnectTimer();
+        if(this.socket !== undefined) {
+            // NOTE: the replaced socket is closed silently, therefore the disconnection has to be handled here
+            this.destroySocket();
+            this.notifyDisconnected();
+        }
+        this.connect();
+    }
+
+    /**
+     * Marks the connection as ready to serve requests once the authentication has been finished
+     */
+    markReady() {
+        if(!this.isConnected()) {
+            return;
+        }
+        this.reconnectAttempts = 0;
+        this.setState(ConnectionState.READY);
+    }
+
+    private destroySocket() {
+        const socket = this.socket;
+        this.socket = undefined;
+        socket?.destroy();
+    }
+
+    private clearReconnectTimer() {
+        if(this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+    }
+
+    private scheduleReconnect() {
+        const delay = Math.min(NetworkHandler.MAX_RECONNECT_DELAY, NetworkHandler.INITIAL_RECONNECT_DELAY * Math.pow(2, this.reconnectAttempts));
+        this.reconnectAttempts++;
+        this.log.info(`Reconnecting to the server in ${delay}ms`);
+        this.setState(ConnectionState.BACKING_OFF);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.connect();
+        }, delay);
+    }
+
+    private connect() {
+        if(this.connectionGuard !== undefined && !this.connectionGuard()) {
+            this.log.debug("Establishing connection is not allowed at this moment");
+            this.scheduleReconnect();
+            return;
+        }
+        this.setState(ConnectionState.CONNECTING);
+        this.readBuffers = new ArrayBuffer(0);
+
+        const socket = net.connect({
             host: this.complex.serverIp,
             port: Client.MMF_SERVER_PORT
         });
-        this.socket.on('connect', () => {
-            this.isConnected = true;
+        socket.setTimeout(NetworkHandler.CONNECT_TIMEOUT);
+        this.socket = socket;
+
+        // NOTE: events from sockets which have been replaced must be ignored
+        socket.on('connect', () => {
+            if(this.socket !== socket) {
+                return;
+            }
+            socket.setTimeout(0);
             this.log.info('Connected to server');
+            this.setState(ConnectionState.AUTHENTICATING);
 
             if(this.onConnected !== undefined) {
                 this.onConnected();
             }
         });
-        this.socket.on('data', async (data) => {
+        socket.on('data', async (data) => {
+            if(this.socket !== socket) {
+                return;
+            }
             this.appendBuffer(data);
             do {
+                // Handles every complete response in the buffer
             } while(await this.handleResponse());
         });
-        this.socket.on('end', () => {
+        socket.on('end', () => {
             this.log.info('Disconnected from MMF server');
-            this.handleDisconnect();
         });
-        this.socket.on('error', (error) => {
+        socket.on('error', (error) => {
             this.log.error(`Unexpected behavior: ${error.message}`);
-            this.handleDisconnect();
         });
-        this.socket.on('timeout', () => {
+        socket.on('timeout', () => {
             this.log.error('Connection timed out');
+            socket.destroy();
+        });
+        socket.on('close', () => {
+            if(this.socket !== socket) {
+                return;
+            }
             this.handleDisconnect();
         });
     }
 
     private handleDisconnect() {
-        this.isConnected = false;
         this.socket = undefined;
+        if(this.autoReconnect) {
+            this.scheduleReconnect();
+        } else {
+            this.setState(ConnectionState.DISCONNECTED);
+        }
+        this.notifyDisconnected();
+    }
 
+    private notifyDisconnected() {
+        this.requeueDeferredRequests();
+        if(this.onDisconnected !== undefined) {
+            this.onDisconnected();
+        }
+    }
+
+    private requeueDeferredRequests() {
         // NOTE: move deferred requests into enqueued request array
         //       but don't empty deferred requests. this will be executed after reconnection
         for(const request of this.deferredRequests) {
-            this.enqueuedRequests.push({
-                body: request.body,
-                type: request.type,
-                subType: request.fromSubTypes
-            });
+            this.enqueueDeferredRequest(request);
         }
+    }
 
-        if(this.onDisconnected !== undefined) {
-            this.onDisconnected();
+    private enqueueDeferredRequest(request: DeferredRequest) {
+        if(this.enqueuedRequests.some((enqueued) => enqueued.deferred === request)) {
+            return;
         }
+        this.enqueuedRequests.push({
+            body: request.body,
+            type: request.type,
+            subType: request.fromSubTypes,
+            deferred: request
+        });
     }
 
     private appendBuffer(bytes: Uint8Array | Buffer, offset = 0, length = bytes.byteLength) {
@@ -216,53 +416,82 @@ export class NetworkHandler {
             this.appendBuffer(rawData, chunkSize, rawData.byteLength - chunkSize);
         }
         if(packet !== undefined) {
-            const header = packet.getHeader();
-            this.log.debug(`<=== HEAD(${header.toString()}) :: ${JSON.stringify(this.obfuscatePersonalInformation(packet.getJSONBody()))}`);
-            if(header.getError() === Errors.SUCCESS) {
-                if(this.deferredRequests.length > 0) {
-                    let timedOut = 0;
-                    let index = 0;
-                    while(index < this.deferredRequests.length) {
-                        const request = this.deferredRequests[index];
-                        if(Date.now() - request.timestamp > 1000 * 10) {
-                            // 10 seconds timeout
-                            timedOut++;
-                            request.resolve({ item: [] });
-                            this.deferredRequests.splice(index, 1);
-                            continue;
-                        }
-
-                        const response = packet.getJSONBody();
-                        if(request.type === header.getType() && request.toSubTypes === header.getSubType() && (!request.matches || request.matches(response))) {
-                            request.resolve(response);
-                            this.deferredRequests.splice(index, 1);
-                            continue;
-                        }
-                        index++;
-                    }
-                    if(timedOut > 0) {
-                        this.log.debug('%d deferred requests have timed out for 10+ seconds', timedOut);
-                    }
+            this.recorder?.record(PacketDirection.RECEIVED, packet);
+            await this.handlePacket(packet);
+        }
+        return true;
+    }
+
+    private handleSchemaViolation(type: Types, subType: SubTypes, violations: string[]) {
+        const error = new MessageSchemaError(type, subType, violations);
+        this.log.warn(error.message);
+
+        // NOTE: malformed responses can't be matched, therefore the oldest request waiting for it takes the failure
+        const request = this.deferredRequests.find((request) => request.type === type && request.toSubTypes === subType);
+        if(request !== undefined) {
+            this.removeDeferredRequest(request);
+            this.statistics.rejected++;
+            request.reject(error);
+        }
+    }
+
+    async handlePacket(packet: Packet) {
+        const header = packet.getHeader();
+        this.log.debug(`<=== HEAD(${header.toString()}) :: ${JSON.stringify(this.obfuscatePersonalInformation(packet.getJSONBody()))}`);
+        if(header.getError() === Errors.SUCCESS) {
+            const dropped = normalizeResponse(header.getType(), header.getSubType(), packet.getJSONBody());
+            if(dropped.length) {
+                this.log.warn(`${new MessageSchemaError(header.getType(), header.getSubType(), dropped).message}. Dropped the malformed items`);
+            }
+            const violations = validateResponse(header.getType(), header.getSubType(), packet.getJSONBody());
+            if(violations.length) {
+                this.handleSchemaViolation(header.getType(), header.getSubType(), violations);
+                return;
+            }
+            let index = 0;
+            while(index < this.deferredRequests.length) {
+                const request = this.deferredRequests[index];
+                const response = packet.getJSONBody();
+                if(request.type === header.getType() && request.toSubTypes === header.getSubType() && (!request.matches || request.matches(response))) {
+                    // NOTE: removed from the enqueued requests as well, which must not be sent again after reconnection
+                    this.removeDeferredRequest(request);
+                    this.statistics.resolved++;
+                    request.resolve(response);
+                    continue;
                 }
-                for(const listener of this.listeners) {
-                    if(listener.type === header.getType() && listener.subType == header.getSubType()) {
+                index++;
+            }
+            for(const listener of this.listeners) {
+                if(listener.type === header.getType() && listener.subType == header.getSubType()) {
+                    try {
                         await listener.callback(packet.getJSONBody());
+                    } catch(e) {
+                        this.log.error(`Response listener of ${header.toString()} has failed: ${e}`);
                     }
                 }
-            } else {
-                let found = false;
-                for(const listener of this.errorListeners) {
-                    if(listener.error === header.getError()) {
-                        await listener.callback();
-                        found = true;
-                    }
-                }
-                if(!found) {
-                    this.log.warn("Unexpected error type has been responded:", header.getError());
+            }
+        } else {
+            // Error responses carry no identifiers of the request, therefore the oldest request of the same kind takes it
+            const request = this.deferredRequests.find((request) => {
+                return request.type === header.getType() && (request.toSubTypes === header.getSubType() || request.fromSubTypes === header.getSubType());
+            });
+            let found = false;
+            if(request !== undefined) {
+                this.removeDeferredRequest(request);
+                this.statistics.rejected++;
+                request.reject(new DeferredRequestError(header.getError(), request.type, request.fromSubTypes));
+                found = true;
+            }
+            for(const listener of this.errorListeners) {
+                if(listener.error === header.getError()) {
+                    await listener.callback();
+                    found = true;
                 }
             }
+            if(!found) {
+                this.log.warn("Unexpected error type has been responded:", header.getError());
+            }
         }
-        return true;
     }
 
 }
\ No newline at end of file
@@ -65,6 +65,10 @@ export class PacketHeader {
         return buffer.array();
     }
 
+    getPin(): string {
+        return this.pin;
+    }
+
     getType(): Types {
         return this.type;
     }
@@ -73,6 +77,14 @@ export class PacketHeader {
         return this.subType;
     }
 
+    getSource(): number {
+        return this.src;
+    }
+
+    getDestination(): number {
+        return this.dst;
+    }
+
     getError(): Errors {
         return this.error;
     }
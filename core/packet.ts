@@ -65,8 +65,8 @@ export class Packet {
         });
     }
 
-    static create(body: object, pin: string, type: Types, subType: SubTypes, src: number, dst: number): Packet {
-        return new Packet(new PacketHeader(pin, type, subType, src, dst, Errors.SUCCESS), {
+    static create(body: object, pin: string, type: Types, subType: SubTypes, src: number, dst: number, error: Errors = Errors.SUCCESS): Packet {
+        return new Packet(new PacketHeader(pin, type, subType, src, dst, error), {
             raw: undefined,
             json: body,
             string: undefined
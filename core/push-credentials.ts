@@ -0,0 +1,150 @@
+import * as fs from "fs";
+import fcm, {Credentials} from "push-receiver";
+import {LoggerBase} from "./network";
+
+export interface StoredPushCredentials {
+    senderId: string
+    credentials: Credentials
+    persistentIds: string[]
+    staleTokens: string[]
+    updatedAt: number
+}
+
+/**
+ * Keeps the FCM credentials and the received persistent ids in the storage directory.
+ * Reusing them across restarts keeps the push token registered to the complex unchanged,
+ * and prevents the notifications already received from being delivered again.
+ */
+export class PushCredentialStore {
+
+    public static FILE_NAME = "daelim-push-credentials.json";
+    public static MAX_PERSISTENT_IDS = 100;
+
+    private readonly path: string;
+    private stored?: StoredPushCredentials;
+
+    constructor(private readonly log: LoggerBase,
+                storagePath: string) {
+        this.path = `${storagePath}/${PushCredentialStore.FILE_NAME}`;
+    }
+
+    getPath(): string {
+        return this.path;
+    }
+
+    async prepare(senderId: string): Promise<Credentials> {
+        const stored = this.load();
+        if(stored && stored.senderId === senderId && PushCredentialStore.isValid(stored.credentials)) {
+            this.stored = stored;
+            this.log.debug("Reusing the stored push credentials");
+            return stored.credentials;
+        }
+        this.stored = stored;
+        return await this.renew(senderId);
+    }
+
+    /**
+     * Registers new credentials. The token of the previous credentials is kept as stale until it is unregistered.
+     */
+    async renew(senderId = this.stored?.senderId): Promise<Credentials> {
+        if(senderId === undefined) {
+            throw new Error("Sender id of the push credentials is unknown");
+        }
+        this.log.info("Registering new push credentials...");
+        const credentials = await fcm.register(senderId);
+        const staleTokens = [...(this.stored?.staleTokens || [])];
+        const previousToken = this.stored?.credentials?.fcm?.token;
+        if(previousToken && previousToken !== credentials.fcm.token && !staleTokens.includes(previousToken)) {
+            staleTokens.push(previousToken);
+        }
+        this.stored = {
+            senderId: senderId,
+            credentials: credentials,
+            persistentIds: [],
+            staleTokens: staleTokens,
+            updatedAt: Date.now()
+        };
+        this.save();
+        return credentials;
+    }
+
+    getCredentials(): Credentials {
+        if(this.stored === undefined) {
+            throw new Error("Push credentials have not been prepared");
+        }
+        return this.stored.credentials;
+    }
+
+    getPersistentIds(): string[] {
+        return [...(this.stored?.persistentIds || [])];
+    }
+
+    addPersistentId(persistentId: string) {
+        if(this.stored === undefined || this.stored.persistentIds.includes(persistentId)) {
+            return;
+        }
+        this.stored.persistentIds.push(persistentId);
+        if(this.stored.persistentIds.length > PushCredentialStore.MAX_PERSISTENT_IDS) {
+            this.stored.persistentIds.splice(0, this.stored.persistentIds.length - PushCredentialStore.MAX_PERSISTENT_IDS);
+        }
+        this.save();
+    }
+
+    getStaleTokens(): string[] {
+        return [...(this.stored?.staleTokens || [])];
+    }
+
+    removeStaleToken(token: string) {
+        if(this.stored === undefined) {
+            return;
+        }
+        const index = this.stored.staleTokens.indexOf(token);
+        if(index === -1) {
+            return;
+        }
+        this.stored.staleTokens.splice(index, 1);
+        this.save();
+    }
+
+    private load(): StoredPushCredentials | undefined {
+        if(!fs.existsSync(this.path)) {
+            return undefined;
+        }
+        try {
+            const stored = JSON.parse(fs.readFileSync(this.path, "utf-8")) as StoredPushCredentials;
+            return {
+                ...stored,
+                persistentIds: stored.persistentIds || [],
+                staleTokens: stored.staleTokens || []
+            };
+        } catch(e) {
+            this.log.warn(`Failed to load the stored push credentials: ${e}`);
+            return undefined;
+        }
+    }
+
+    private save() {
+        if(this.stored === undefined) {
+            return;
+        }
+        this.stored.updatedAt = Date.now();
+        try {
+            fs.writeFileSync(this.path, JSON.stringify(this.stored), { mode: 0o600 });
+        } catch(e) {
+            this.log.warn(`Failed to store the push credentials: ${e}`);
+        }
+    }
+
+    /**
+     * Checks the fields which are required by push-receiver to listen
+     */
+    static isValid(credentials?: Credentials): boolean {
+        return !!credentials
+            && !!credentials.fcm?.token
+            && !!credentials.gcm?.androidId
+            && !!credentials.gcm?.securityToken
+            && !!credentials.keys?.privateKey
+            && !!credentials.keys?.authSecret;
+    }
+
+}
@@ -0,0 +1,181 @@
+import fs from "fs";
+import http from "http";
+import fcm, {Client as FcmClient, NotificationData} from "push-receiver";
+import {LoggerBase} from "./network";
+import {PushCredentialStore} from "./push-credentials";
+
+export type PushTransportType = "fcm" | "local" | "both";
+
+export interface PushConfig {
+    transport?: PushTransportType
+    port?: number
+    socketPath?: string
+}
+
+/**
+ * The payload of push notifications sent by the complex, every field is a string
+ */
+export interface PushNotificationData {
+    data1: string
+    data2: string
+    title: string
+    message: string
+    data3: string
+}
+
+export interface PushNotification {
+    from: string
+    priority: string
+    data: PushNotificationData
+}
+
+export type PushNotificationCallback = (notification: PushNotification) => void;
+
+export interface PushTransport {
+    readonly name: string
+    start(callback: PushNotificationCallback): Promise<void>
+    stop(): void
+}
+
+export function usesFcmTransport(config?: PushConfig): boolean {
+    return (config?.transport || "fcm") !== "local";
+}
+
+export function usesLocalTransport(config?: PushConfig): boolean {
+    const transport = config?.transport || "fcm";
+    return transport === "local" || transport === "both";
+}
+
+/**
+ * Receives push notifications of the complex through Firebase Cloud Messaging
+ */
+export class FcmPushTransport implements PushTransport {
+
+    readonly name = "FCM";
+
+    private client?: FcmClient;
+
+    constructor(private readonly log: LoggerBase,
+                private readonly credentials: PushCredentialStore) {
+    }
+
+    async start(callback: PushNotificationCallback) {
+        try {
+            await this.listen(callback);
+        } catch(e) {
+            this.log.warn(`Failed to listen push notifications with the stored credentials: ${e}`);
+            await this.credentials.renew();
+            await this.listen(callback);
+        }
+    }
+
+    stop() {
+        this.client?.destroy();
+        this.client = undefined;
+    }
+
+    private async listen(callback: PushNotificationCallback) {
+        const credentials = this.credentials.getCredentials();
+        this.client = await fcm.listen({ ...credentials, persistentIds: this.credentials.getPersistentIds() }, (data: NotificationData) => {
+            this.credentials.addPersistentId(data.persistentId);
+            callback(data.notification);
+        });
+    }
+
+}
+
+/**
+ * Receives push notifications from a local HTTP endpoint or a UNIX socket.
+ * Automations and other bridges are able to inject notifications by posting the payload as JSON.
+ */
+export class LocalPushTransport implements PushTransport {
+
+    public static FROM = "local";
+    public static PRIORITY = "normal";
+
+    readonly name = "local";
+
+    private server?: http.Server;
+
+    constructor(private readonly log: LoggerBase,
+                private readonly config: PushConfig) {
+    }
+
+    async start(callback: PushNotificationCallback) {
+        const address = this.config.socketPath || this.config.port;
+        if(address === undefined) {
+            this.log.warn("Local push transport requires either a port or a socket path");
+            return;
+        }
+        if(typeof address === "string" && fs.existsSync(address)) {
+            // NOTE: the socket file of the previous run is left behind when the process has been killed
+            fs.unlinkSync(address);
+        }
+        this.server = http.createServer((request, response) => {
+            let body = "";
+            request.on("data", (chunk) => body += chunk);
+            request.on("end", () => {
+                const data = LocalPushTransport.parse(body);
+                if(data === undefined) {
+                    response.writeHead(400);
+                    response.end("Invalid push notification\n");
+                    return;
+                }
+                response.writeHead(202);
+                response.end("Accepted\n");
+                callback({
+                    from: LocalPushTransport.FROM,
+                    priority: LocalPushTransport.PRIORITY,
+                    data: data
+                });
+            });
+        });
+        this.server.on("error", (error) => {
+            this.log.error(`Failed to open the local push endpoint on ${address}: ${error.message}`);
+        });
+        await new Promise<void>((resolve) => {
+            if(typeof address === "string") {
+                this.server?.listen(address, resolve);
+            } else {
+                this.server?.listen(address, "127.0.0.1", resolve);
+            }
+        });
+        this.log.info(`Listening local push notifications on ${typeof address === "string" ? address : `http://127.0.0.1:${address}`}`);
+    }
+
+    stop() {
+        this.server?.close();
+        this.server = undefined;
+    }
+
+    static parse(body: string): PushNotificationData | undefined {
+        let json: any;
+        try {
+            json = JSON.parse(body);
+        } catch(e) {
+            return undefined;
+        }
+        if(typeof json !== "object" || json === null || json["data1"] === undefined || json["data2"] === undefined) {
+            return undefined;
+        }
+        return {
+            data1: String(json["data1"]),
+            data2: String(json["data2"]),
+            title: String(json["title"] || ""),
+            message: String(json["message"] || ""),
+            data3: String(json["data3"] || "")
+        };
+    }
+
+}
+
+export function createPushTransports(log: LoggerBase, config?: PushConfig, credentials?: PushCredentialStore): PushTransport[] {
+    const transports: PushTransport[] = [];
+    if(usesFcmTransport(config) && credentials !== undefined) {
+        transports.push(new FcmPushTransport(log, credentials));
+    }
+    if(config !== undefined && usesLocalTransport(config)) {
+        transports.push(new LocalPushTransport(log, config));
+    }
+    return transports;
+}
@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import {Packet} from "./packet";
+import {Errors, SubTypes, Types} from "./fields";
+import {Utils} from "./utils";
+import {LoggerBase} from "./network";
+
+export enum PacketDirection {
+    SENT = "sent",
+    RECEIVED = "received"
+}
+
+export interface RecordedHeader {
+    type: Types
+    typeName: string
+    subType: SubTypes
+    subTypeName: string
+    src: number
+    dst: number
+    error: Errors
+    errorName: string
+}
+
+export interface PacketRecord {
+    timestamp: number
+    direction: PacketDirection
+    header: RecordedHeader
+    body: any
+}
+
+// Keys carrying credentials or personal information which must not leave the user's machine
+const REDACTED_KEYS = ["id", "pw", "UUID", "certpin", "loginpin", "pushID", "num", "dong", "ho", "image"];
+
+export class PacketRecorder {
+
+    private readonly stream: fs.WriteStream;
+    private failed = false;
+
+    constructor(private readonly log: LoggerBase,
+                private readonly path: string) {
+        this.stream = fs.createWriteStream(path, { flags: "a" });
+        // NOTE: unhandled errors of the stream, such as an unwritable path, would crash the whole Homebridge process
+        this.stream.on("error", (error) => {
+            this.log.error(`Failed to record packets into ${path}, recording has been disabled: ${error.message}`);
+            this.failed = true;
+        });
+    }
+
+    static createFilePath(storagePath: string): string {
+        return `${storagePath}/daelim-capture-${Date.now()}.jsonl`;
+    }
+
+    static redact(body: any): any {
+        if(Array.isArray(body)) {
+            return body.map((value) => PacketRecorder.redact(value));
+        }
+        if(body === null || typeof body !== "object") {
+            return body;
+        }
+        const redacted: any = {};
+        for(const key of Object.keys(body)) {
+            if(REDACTED_KEYS.includes(key)) {
+                redacted[key] = "[REDACTED]";
+            } else {
+                redacted[key] = PacketRecorder.redact(body[key]);
+            }
+        }
+        return redacted;
+    }
+
+    getPath(): string {
+        return this.path;
+    }
+
+    isRecording(): boolean {
+        return !this.failed;
+    }
+
+    record(direction: PacketDirection, packet: Packet) {
+        if(this.failed) {
+            return;
+        }
+        const header = packet.getHeader();
+        const record: PacketRecord = {
+            timestamp: Date.now(),
+            direction: direction,
+            header: {
+                type: header.getType(),
+                typeName: Types[header.getType()],
+                subType: header.getSubType(),
+                subTypeName: Utils.findSubType(header.getType())[header.getSubType()],
+                src: header.getSource(),
+                dst: header.getDestination(),
+                error: header.getError(),
+                errorName: Errors[header.getError()]
+            },
+            body: PacketRecorder.redact(packet.getJSONBody())
+        };
+        this.stream.write(`${JSON.stringify(record)}\n`);
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => {
+            if(this.failed) {
+                resolve();
+                return;
+            }
+            this.stream.end(() => resolve());
+        });
+    }
+
+}
+
+export interface PacketReplayTarget {
+    handlePacket(packet: Packet): Promise<void>;
+}
+
+export class PacketReplayer {
+
+    constructor(private readonly target: PacketReplayTarget) {
+    }
+
+    static load(path: string): PacketRecord[] {
+        return fs.readFileSync(path, "utf-8")
+            .split("\n")
+            .filter((line) => line.trim().length > 0)
+            .map((line) => JSON.parse(line) as PacketRecord);
+    }
+
+    static createPacket(record: PacketRecord): Packet {
+        const header = record.header;
+        return Packet.create(record.body || {}, "00000000", header.type, header.subType, header.src, header.dst, header.error);
+    }
+
+    /**
+     * Feeds received packets of the capture back into the target.
+     * Sent packets are skipped since they have been produced by the plugin itself.
+     *
+     * @param records Records loaded from a capture file
+     * @param realtime Whether to keep the recorded intervals between the packets
+     */
+    async replay(records: PacketRecord[], realtime = false): Promise<number> {
+        let replayed = 0;
+        let lastTimestamp = -1;
+        for(const record of records) {
+            if(record.direction !== PacketDirection.RECEIVED) {
+                continue;
+            }
+            if(realtime && lastTimestamp !== -1) {
+                const delay = Math.max(0, record.timestamp - lastTimestamp);
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+            lastTimestamp = record.timestamp;
+            await this.target.handlePacket(PacketReplayer.createPacket(record));
+            replayed++;
+        }
+        return replayed;
+    }
+
+}
@@ -0,0 +1,79 @@
+import {Errors} from "./fields";
+import {DeferredRequestError} from "./errors";
+import {LoggerBase} from "./network";
+
+export interface RetryConfig {
+    maxAttempts?: number
+    initialDelay?: number
+    maxDelay?: number
+    jitter?: number
+    errors?: string[]
+}
+
+export const DEFAULT_RETRYABLE_ERRORS = [
+    Errors.TOO_MANY_REQUESTS,
+    Errors.TRY_AGAIN_LAYER,
+    Errors.UNSTABLE_WALL_PAD_COMMUNICATION,
+    Errors.UNSTABLE_DEVICE_CONTROL_COMMUNICATION
+];
+
+export class RetryPolicy {
+
+    public static DEFAULT_MAX_ATTEMPTS = 3;
+    public static DEFAULT_INITIAL_DELAY = 500;
+    public static DEFAULT_MAX_DELAY = 5000;
+    public static DEFAULT_JITTER = 0.2;
+
+    readonly maxAttempts: number;
+    readonly initialDelay: number;
+    readonly maxDelay: number;
+    readonly jitter: number;
+    readonly retryableErrors: Errors[];
+
+    constructor(config: RetryConfig = {}) {
+        this.maxAttempts = Math.max(1, config.maxAttempts || RetryPolicy.DEFAULT_MAX_ATTEMPTS);
+        this.initialDelay = Math.max(0, config.initialDelay ?? RetryPolicy.DEFAULT_INITIAL_DELAY);
+        this.maxDelay = Math.max(this.initialDelay, config.maxDelay ?? RetryPolicy.DEFAULT_MAX_DELAY);
+        this.jitter = Math.max(0, Math.min(1, config.jitter ?? RetryPolicy.DEFAULT_JITTER));
+        if(config.errors && config.errors.length) {
+            this.retryableErrors = config.errors
+                .map((name) => Errors[name as keyof typeof Errors])
+                .filter((error) => error !== undefined);
+        } else {
+            this.retryableErrors = DEFAULT_RETRYABLE_ERRORS;
+        }
+    }
+
+    isRetryable(reason: any): boolean {
+        return reason instanceof DeferredRequestError && this.retryableErrors.includes(reason.error);
+    }
+
+    /**
+     * Exponential backoff capped by max delay, spread by ±jitter ratio
+     *
+     * @param attempt The number of attempts already made, starting from 1
+     */
+    getDelay(attempt: number): number {
+        const delay = Math.min(this.maxDelay, this.initialDelay * Math.pow(2, attempt - 1));
+        const spread = delay * this.jitter * (Math.random() * 2 - 1);
+        return Math.max(0, Math.round(delay + spread));
+    }
+
+    async execute<T>(log: LoggerBase, operation: () => Promise<T>): Promise<T> {
+        let attempt = 1;
+        while(true) {
+            try {
+                return await operation();
+            } catch(e) {
+                if(attempt >= this.maxAttempts || !this.isRetryable(e)) {
+                    throw e;
+                }
+                const delay = this.getDelay(attempt);
+                log.warn(`${(e as Error).message}, retrying in ${delay}ms (${attempt}/${this.maxAttempts - 1})`);
+                await new Promise((resolve) => setTimeout(resolve, delay));
+                attempt++;
+            }
+        }
+    }
+
+}
@@ -0,0 +1,192 @@
+import {DeviceSubTypes, ElevatorCallSubTypes, GuardSubTypes, InfoSubTypes, LoginSubTypes, SettingSubTypes, SubTypes, Types} from "./fields";
+
+/**
+ * Returns the list of violations found in the value, empty if the value is valid
+ */
+export type SchemaValidator = (value: any, path: string) => string[];
+
+interface SchemaValidatorMap {
+    [type: number]: { [subType: number]: SchemaValidator }
+}
+
+export class Schemas {
+
+    static string(): SchemaValidator {
+        return (value, path) => typeof value === "string" ? [] : [`${path} must be a string`];
+    }
+
+    static optional(validator: SchemaValidator): SchemaValidator {
+        return (value, path) => value === undefined || value === null ? [] : validator(value, path);
+    }
+
+    static object(properties: { [key: string]: SchemaValidator } = {}, values?: SchemaValidator): SchemaValidator {
+        return (value, path) => {
+            if(typeof value !== "object" || value === null || Array.isArray(value)) {
+                return [`${path} must be an object`];
+            }
+            const violations: string[] = [];
+            for(const key of Object.keys(properties)) {
+                violations.push(...properties[key](value[key], `${path}.${key}`));
+            }
+            if(values !== undefined) {
+                for(const key of Object.keys(value)) {
+                    if(key in properties) {
+                        continue;
+                    }
+                    violations.push(...values(value[key], `${path}.${key}`));
+                }
+            }
+            return violations;
+        };
+    }
+
+    static array(items: SchemaValidator): SchemaValidator {
+        return (value, path) => {
+            if(!Array.isArray(value)) {
+                return [`${path} must be an array`];
+            }
+            const violations: string[] = [];
+            value.forEach((item, index) => violations.push(...items(item, `${path}[${index}]`)));
+            return violations;
+        };
+    }
+
+    static validate(validator: SchemaValidator, value: any): string[] {
+        return validator(value, "body");
+    }
+
+}
+
+const DEVICE_ITEM = Schemas.object({
+    device: Schemas.string(),
+    uid: Schemas.string()
+}, Schemas.optional(Schemas.string()));
+
+const DEVICE_RESPONSE = Schemas.object({
+    item: Schemas.array(DEVICE_ITEM)
+});
+
+const CONTROL_INFO_DEVICE = Schemas.object({
+    uid: Schemas.string(),
+    uname: Schemas.string()
+});
+
+const MENU_RESPONSE = Schemas.object({
+    controlinfo: Schemas.object({}, Schemas.array(CONTROL_INFO_DEVICE))
+});
+
+const PUSH_PREFERENCES_RESPONSE = Schemas.object({
+    item: Schemas.array(Schemas.object({
+        name: Schemas.string(),
+        arg1: Schemas.optional(Schemas.string())
+    }))
+});
+
+const EMPTY = Schemas.object();
+
+const RESPONSE_VALIDATORS: SchemaValidatorMap = {
+    [Types.LOGIN]: {
+        [LoginSubTypes.CERTIFICATION_PIN_RESPONSE]: Schemas.object({
+            certpin: Schemas.string(),
+            dong: Schemas.string(),
+            ho: Schemas.string()
+        }),
+        [LoginSubTypes.LOGIN_PIN_RESPONSE]: Schemas.object({
+            loginpin: Schemas.string()
+        }),
+        [LoginSubTypes.MENU_RESPONSE]: MENU_RESPONSE,
+        [LoginSubTypes.PUSH_RESPONSE]: EMPTY,
+        [LoginSubTypes.ALIVE_RESPONSE]: EMPTY,
+        [LoginSubTypes.DELETE_CERTIFICATION_RESPONSE]: EMPTY,
+        [LoginSubTypes.APPROVAL_RESPONSE]: EMPTY,
+        [LoginSubTypes.WALL_PAD_RESPONSE]: EMPTY,
+        [LoginSubTypes.APPROVAL_DELETE_RESPONSE]: EMPTY
+    },
+    [Types.GUARD]: {
+        [GuardSubTypes.GUARD_STATE_RESPONSE]: EMPTY
+    },
+    [Types.DEVICE]: {
+        [DeviceSubTypes.QUERY_RESPONSE]: DEVICE_RESPONSE,
+        [DeviceSubTypes.INVOKE_RESPONSE]: DEVICE_RESPONSE,
+        [DeviceSubTypes.INVOKE_NOTIFICATION]: DEVICE_RESPONSE,
+        [DeviceSubTypes.WALL_SOCKET_QUERY_RESPONSE]: DEVICE_RESPONSE,
+        [DeviceSubTypes.WALL_SOCKET_INVOKE_RESPONSE]: DEVICE_RESPONSE
+    },
+    [Types.INFO]: {
+        [InfoSubTypes.VISITOR_LIST_RESPONSE]: Schemas.object({
+            list: Schemas.array(Schemas.object({
+                index: Schemas.string(),
+                location: Schemas.string(),
+                InputDate: Schemas.string(),
+                filetype: Schemas.string(),
+                new: Schemas.string()
+            }))
+        }),
+        [InfoSubTypes.VISITOR_CHECK_RESPONSE]: Schemas.object({
+            index: Schemas.string(),
+            image: Schemas.string()
+        })
+    },
+    [Types.SETTING]: {
+        [SettingSubTypes.PUSH_QUERY_RESPONSE]: PUSH_PREFERENCES_RESPONSE,
+        [SettingSubTypes.PUSH_SETTING_RESPONSE]: PUSH_PREFERENCES_RESPONSE
+    },
+    [Types.ELEVATOR_CALL]: {
+        [ElevatorCallSubTypes.CALL_RESPONSE]: EMPTY
+    }
+};
+
+/**
+ * Normalizes the device items of device responses and the devices of the menu response in place before the validation.
+ * Numeric arguments are coerced into strings, and malformed items are dropped so that they don't discard the others.
+ *
+ * @return Violations of the dropped items
+ */
+export function normalizeResponse(type: Types, subType: SubTypes, body: any): string[] {
+    const validator = RESPONSE_VALIDATORS[type]?.[subType];
+    if(validator === DEVICE_RESPONSE && body && Array.isArray(body["item"])) {
+        return filterItems(body, "item", DEVICE_ITEM, "body.item");
+    }
+    const controlInfo = body?.["controlinfo"];
+    if(validator === MENU_RESPONSE && typeof controlInfo === "object" && controlInfo !== null && !Array.isArray(controlInfo)) {
+        const violations: string[] = [];
+        for(const deviceType of Object.keys(controlInfo)) {
+            if(!Array.isArray(controlInfo[deviceType])) {
+                violations.push(`body.controlinfo.${deviceType} must be an array`);
+                delete controlInfo[deviceType];
+                continue;
+            }
+            violations.push(...filterItems(controlInfo, deviceType, CONTROL_INFO_DEVICE, `body.controlinfo.${deviceType}`));
+        }
+        return violations;
+    }
+    return [];
+}
+
+function filterItems(parent: any, key: string, validator: SchemaValidator, path: string): string[] {
+    const violations: string[] = [];
+    parent[key] = parent[key].filter((item: any, index: number) => {
+        if(typeof item === "object" && item !== null && !Array.isArray(item)) {
+            for(const field of Object.keys(item)) {
+                if(field !== "device" && field !== "uid" && typeof item[field] === "number") {
+                    item[field] = String(item[field]);
+                }
+            }
+        }
+        const itemViolations = validator(item, `${path}[${index}]`);
+        violations.push(...itemViolations);
+        return itemViolations.length === 0;
+    });
+    return violations;
+}
+
+/**
+ * Validates the body of a successful response. Responses which are not catalogued are always valid.
+ */
+export function validateResponse(type: Types, subType: SubTypes, body: any): string[] {
+    const validators = RESPONSE_VALIDATORS[type];
+    if(!validators || !(subType in validators)) {
+        return [];
+    }
+    return Schemas.validate(validators[subType], body);
+}
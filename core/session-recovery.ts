@@ -0,0 +1,137 @@
+import {Errors} from "./fields";
+import {LoggerBase} from "./network";
+import {DeferredRequestError, SessionRecoveryError} from "./errors";
+import Timeout = NodeJS.Timeout;
+
+export const SESSION_ERRORS = [
+    Errors.INVALID_LOGIN_PIN,
+    Errors.LOGGED_OUT_TIMEOUT
+];
+
+interface RecoveryWaiter {
+    resolve: () => void
+    reject: (reason?: any) => void
+}
+
+/**
+ * Recovers the session when the server has expired or rejected the login PIN.
+ * Outgoing requests are held while logging in again, and replayed once the new login PIN has been issued.
+ */
+export class SessionRecovery {
+
+    public static DEFAULT_TIMEOUT = 60 * 1000;
+    public static MAX_ATTEMPTS = 3;
+    public static ATTEMPT_WINDOW = 10 * 60 * 1000;
+
+    private recovering = false;
+    private timer?: Timeout;
+    private attempts: number[] = [];
+    private readonly waiters: RecoveryWaiter[] = [];
+
+    constructor(private readonly log: LoggerBase,
+                private readonly relogin: () => void,
+                private readonly timeout = SessionRecovery.DEFAULT_TIMEOUT) {
+    }
+
+    static isSessionError(reason: any): boolean {
+        return reason instanceof DeferredRequestError && SESSION_ERRORS.includes(reason.error);
+    }
+
+    isRecovering(): boolean {
+        return this.recovering;
+    }
+
+    /**
+     * Starts logging in again unless it is already in progress
+     *
+     * @return false if the session has been expired too many times to be recovered for now
+     */
+    begin(error: Errors): boolean {
+        if(this.recovering) {
+            return true;
+        }
+        const now = Date.now();
+        this.attempts = this.attempts.filter((timestamp) => now - timestamp < SessionRecovery.ATTEMPT_WINDOW);
+        if(this.attempts.length >= SessionRecovery.MAX_ATTEMPTS) {
+            this.log.error(`Session has been expired ${this.attempts.length} times in a short period. Giving up recovery for now`);
+            return false;
+        }
+        this.attempts.push(now);
+        this.recovering = true;
+        this.log.warn(`Session has been rejected by the server (${Errors[error]}). Logging in again...`);
+        this.timer = setTimeout(() => {
+            this.fail(new SessionRecoveryError(`login has not been completed in ${this.timeout}ms`));
+        }, this.timeout);
+        this.relogin();
+        return true;
+    }
+
+    /**
+     * Releases the held requests in the order they were held
+     */
+    complete() {
+        if(!this.recovering) {
+            return;
+        }
+        this.finish();
+        const waiters = this.waiters.splice(0, this.waiters.length);
+        if(waiters.length) {
+            this.log.info(`Session has been recovered. Replaying ${waiters.length} held request(s)`);
+        } else {
+            this.log.info("Session has been recovered");
+        }
+        for(const waiter of waiters) {
+            waiter.resolve();
+        }
+    }
+
+    fail(reason: Error) {
+        if(!this.recovering) {
+            return;
+        }
+        this.finish();
+        this.log.error(reason.message);
+        const waiters = this.waiters.splice(0, this.waiters.length);
+        for(const waiter of waiters) {
+            waiter.reject(reason);
+        }
+    }
+
+    waitForRecovery(): Promise<void> {
+        if(!this.recovering) {
+            return Promise.resolve();
+        }
+        return new Promise<void>((resolve, reject) => {
+            this.waiters.push({
+                resolve: resolve,
+                reject: reject
+            });
+        });
+    }
+
+    /**
+     * Executes the operation once the session is valid.
+     * The operation is held and executed again if the server rejects it due to the expired session.
+     */
+    async execute<T>(operation: () => Promise<T>): Promise<T> {
+        while(true) {
+            await this.waitForRecovery();
+            try {
+                return await operation();
+            } catch(e) {
+                if(!SessionRecovery.isSessionError(e) || !this.begin((e as DeferredRequestError).error)) {
+                    throw e;
+                }
+            }
+        }
+    }
+
+    private finish() {
+        this.recovering = false;
+        if(this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+}
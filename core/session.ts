@@ -0,0 +1,84 @@
+import * as fs from "fs";
+import {LoggerBase} from "./network";
+import {ControlInfo} from "./interfaces/messages";
+
+export interface ClientAuthorization {
+    certification: string,
+    login: string
+}
+
+export interface ClientAddress {
+    complex: string,
+    room: string
+}
+
+export interface PersistedSession {
+    username: string
+    complex: string
+    authorization: ClientAuthorization
+    address: ClientAddress
+    controlInfo?: ControlInfo
+    updatedAt: number
+}
+
+/**
+ * Keeps the authenticated session in the storage directory, so that restarts don't have to repeat the whole login flow
+ */
+export class SessionStore {
+
+    public static FILE_NAME = "daelim-session.json";
+
+    private readonly path: string;
+
+    constructor(private readonly log: LoggerBase,
+                storagePath: string,
+                private readonly username: string,
+                private readonly complex: string) {
+        this.path = `${storagePath}/${SessionStore.FILE_NAME}`;
+    }
+
+    getPath(): string {
+        return this.path;
+    }
+
+    load(): PersistedSession | undefined {
+        if(!fs.existsSync(this.path)) {
+            return undefined;
+        }
+        try {
+            const session = JSON.parse(fs.readFileSync(this.path, "utf-8")) as PersistedSession;
+            if(session.username !== this.username || session.complex !== this.complex) {
+                // The account or the complex has been changed in config
+                this.clear();
+                return undefined;
+            }
+            return session;
+        } catch(e) {
+            this.log.warn(`Failed to load the stored session: ${e}`);
+            return undefined;
+        }
+    }
+
+    save(authorization: ClientAuthorization, address: ClientAddress, controlInfo?: ControlInfo) {
+        const session: PersistedSession = {
+            username: this.username,
+            complex: this.complex,
+            authorization: authorization,
+            address: address,
+            controlInfo: controlInfo,
+            updatedAt: Date.now()
+        };
+        try {
+            fs.writeFileSync(this.path, JSON.stringify(session), { mode: 0o600 });
+        } catch(e) {
+            this.log.warn(`Failed to store the session: ${e}`);
+        }
+    }
+
+    clear() {
+        if(fs.existsSync(this.path)) {
+            fs.unlinkSync(this.path);
+        }
+    }
+
+}
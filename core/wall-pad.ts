@@ -0,0 +1,160 @@
+import fs from "fs";
+import http from "http";
+import {LoggerBase} from "./network";
+
+export interface WallPadConfig {
+    port?: number
+    retryInterval?: number
+}
+
+export type WallPadPinCallback = (pin: string, source: string) => void;
+
+/**
+ * Receives the wall-pad PIN without an interactive terminal.
+ * The PIN can be given by an environment variable, a file in the storage directory or a local HTTP endpoint.
+ */
+export class WallPadPinReceiver {
+
+    public static ENVIRONMENT_VARIABLE = "DAELIM_WALL_PAD_PIN";
+    public static FILE_NAME = "daelim-wall-pad-pin";
+    public static CONSUMED_ENVIRONMENT_FILE_NAME = "daelim-wall-pad-pin-consumed";
+    public static FILE_POLLING_INTERVAL = 1000;
+    public static DEFAULT_RETRY_INTERVAL = 5 * 60 * 1000;
+
+    private readonly filePath: string;
+    private readonly consumedEnvironmentFilePath: string;
+    private server?: http.Server;
+    private callback?: WallPadPinCallback;
+
+    constructor(private readonly log: LoggerBase,
+                storagePath: string,
+                private readonly config: WallPadConfig = {}) {
+        this.filePath = `${storagePath}/${WallPadPinReceiver.FILE_NAME}`;
+        this.consumedEnvironmentFilePath = `${storagePath}/${WallPadPinReceiver.CONSUMED_ENVIRONMENT_FILE_NAME}`;
+    }
+
+    getFilePath(): string {
+        return this.filePath;
+    }
+
+    isReceiving(): boolean {
+        return this.callback !== undefined;
+    }
+
+    start(callback: WallPadPinCallback) {
+        if(this.callback !== undefined) {
+            return;
+        }
+        this.callback = callback;
+
+        fs.watchFile(this.filePath, { interval: WallPadPinReceiver.FILE_POLLING_INTERVAL }, () => this.readFile());
+        if(this.config.port) {
+            this.listen(this.config.port);
+        }
+
+        this.log.info("##");
+        this.log.info("## Wall-pad certification is required. Enter the PIN displayed on the wall pad by one of:");
+        this.log.info(`##   - Writing the PIN into ${this.filePath}`);
+        if(this.config.port) {
+            this.log.info(`##   - Sending the PIN to http://127.0.0.1:${this.config.port}/?pin=<PIN>`);
+        }
+        this.log.info(`##   - Setting ${WallPadPinReceiver.ENVIRONMENT_VARIABLE} environment variable and restarting Homebridge`);
+        this.log.info("##");
+
+        this.readEnvironment();
+        this.readFile();
+    }
+
+    stop() {
+        if(this.callback === undefined) {
+            return;
+        }
+        this.callback = undefined;
+        fs.unwatchFile(this.filePath);
+        this.server?.close();
+        this.server = undefined;
+    }
+
+    private listen(port: number) {
+        this.server = http.createServer((request, response) => {
+            let body = "";
+            request.on("data", (chunk) => body += chunk);
+            request.on("end", () => {
+                let url: URL;
+                try {
+                    url = new URL(request.url || "/", `http://127.0.0.1:${port}`);
+                } catch(e) {
+                    response.writeHead(400);
+                    response.end("Invalid request URL\n");
+                    return;
+                }
+                const pin = url.searchParams.get("pin") || body;
+                if(!this.accept(pin, "HTTP endpoint")) {
+                    response.writeHead(400);
+                    response.end("Invalid wall-pad PIN\n");
+                    return;
+                }
+                response.writeHead(202);
+                response.end("Accepted\n");
+            });
+        });
+        this.server.on("error", (error) => {
+            this.log.error(`Failed to open the wall-pad PIN endpoint on port ${port}: ${error.message}`);
+        });
+        this.server.listen(port, "127.0.0.1");
+    }
+
+    private readEnvironment() {
+        const environmentPin = process.env[WallPadPinReceiver.ENVIRONMENT_VARIABLE]?.trim();
+        if(!environmentPin) {
+            return;
+        }
+        // NOTE: the environment variable stays the same across restarts while the wall pad issues a new PIN on every approval request,
+        // so the same PIN is never sent twice. Setting a different PIN and restarting Homebridge makes it used again.
+        let consumedPin: string | undefined;
+        try {
+            consumedPin = fs.readFileSync(this.consumedEnvironmentFilePath, "utf-8").trim();
+        } catch(e) {
+        }
+        if(consumedPin === environmentPin) {
+            this.log.warn(`Ignoring ${WallPadPinReceiver.ENVIRONMENT_VARIABLE} environment variable since the PIN has already been used`);
+            return;
+        }
+        try {
+            fs.writeFileSync(this.consumedEnvironmentFilePath, environmentPin);
+        } catch(e) {
+            this.log.error(`Failed to write ${this.consumedEnvironmentFilePath}: ${e}`);
+        }
+        this.accept(environmentPin, "environment variable");
+    }
+
+    private readFile() {
+        if(!fs.existsSync(this.filePath)) {
+            return;
+        }
+        let pin: string;
+        try {
+            pin = fs.readFileSync(this.filePath, "utf-8");
+            // NOTE: the file is consumed immediately, so that the same PIN is not sent twice
+            fs.unlinkSync(this.filePath);
+        } catch(e) {
+            this.log.error(`Failed to read the wall-pad PIN from ${this.filePath}: ${e}`);
+            return;
+        }
+        this.accept(pin, "file");
+    }
+
+    private accept(pin: string, source: string): boolean {
+        const trimmed = pin.trim();
+        if(!/^[0-9]+$/.test(trimmed)) {
+            this.log.warn(`Ignoring malformed wall-pad PIN from ${source}`);
+            return false;
+        }
+        if(this.callback === undefined) {
+            return false;
+        }
+        this.callback(trimmed, source);
+        return true;
+    }
+
+}
@@ -10,6 +10,7 @@ import {VEHICLE_DEVICE_ID, VEHICLE_DISPLAY_NAME} from "../homebridge/accessories
 import {CAMERA_DEVICES} from "../homebridge/accessories/camera";
 import {DOOR_DEVICES} from "../homebridge/accessories/door";
 import {MenuItem} from "../core/interfaces/menu";
+import {ResponseBody} from "../core/interfaces/messages";
 
 interface ClientAuthorization {
     certification: string,
@@ -70,7 +71,6 @@ export class UiServer extends HomebridgePluginUiServer {
     constructor() {
         super();
 
-        // @ts-ignore
         this.log = new Logger();
 
         this.authorization = {
@@ -264,7 +264,7 @@ export class UiServer extends HomebridgePluginUiServer {
         }
     }
 
-    registerResponseListener(type: Types, subType: SubTypes, callback: ResponseCallback) {
+    registerResponseListener<T extends Types, S extends SubTypes>(type: T, subType: S, callback: ResponseCallback<ResponseBody<T, S>>) {
         if(this.handler !== undefined) {
             this.handler.registerResponseListener(type, subType, callback);
         }
@@ -289,6 +289,7 @@ export class UiServer extends HomebridgePluginUiServer {
         const menuItems = await Utils.fetchSupportedMenus(complex);
         this.prepareDefaultDevices(menuItems);
         this.handler = new NetworkHandler(this.log, complex);
+        this.handler.autoReconnect = false;
         this.handler.onConnected = () => {
             if(!this.username || !this.password) {
                 this.log.error("Username and password is not valid");
@@ -356,7 +357,7 @@ export class UiServer extends HomebridgePluginUiServer {
         });
         this.registerResponseListener(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, async (body) => {
             const items = body['item'] || [];
-            const filtered: EnqueuedAccessory[] = items.map((item: any) => {
+            const filtered = items.map((item) => {
                 const devices = this.enqueuedAccessories[item['device']];
                 for(const device of devices) {
                     if(device.uid === item['uid']) {
@@ -364,7 +365,7 @@ export class UiServer extends HomebridgePluginUiServer {
                     }
                 }
                 return undefined;
-            }).filter((device: EnqueuedAccessory) => device !== undefined);
+            }).filter((device): device is EnqueuedAccessory => device !== undefined);
 
             if(!filtered || !filtered.length) {
                 return;
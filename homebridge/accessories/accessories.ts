@@ -2,8 +2,13 @@ import {Client} from "../../core/client";
 import {API, CharacteristicGetCallback, Logging, PlatformAccessory, Service} from "homebridge";
 import {Utils} from "../../core/utils";
 import {WithUUID} from "hap-nodejs";
-import {DaelimConfig, Device} from "../../core/interfaces/daelim-config";
+import {DaelimConfig, Device, PollingConfig} from "../../core/interfaces/daelim-config";
 import {DeviceSubTypes, LoginSubTypes, Types} from "../../core/fields";
+import {ControlInfo, DeviceItem, DeviceResponse, DeviceTarget} from "../../core/interfaces/messages";
+import {ConnectionState} from "../../core/network";
+import {DeviceStateSource} from "../../core/device-state";
+import {CapabilityDiscovery, DeviceCapabilities} from "../../core/capabilities";
+import Timeout = NodeJS.Timeout;
 
 export interface AccessoryInterface {
 
@@ -12,6 +17,7 @@ export interface AccessoryInterface {
     accessoryType?: string,
     init: boolean,
     version?: string,
+    deviceCapabilities?: DeviceCapabilities,
 
 }
 
@@ -31,12 +37,22 @@ const NEW_UUID_COMBINATION: UUIDCombinationGenerator = (context) => `${context.d
 
 export class Accessories<T extends AccessoryInterface> {
 
+    public static DEFAULT_POLLING_INTERVAL = 5 * 60;
+    public static MIN_POLLING_INTERVAL = 10;
+    public static POLLING_STAGGER = 3 * 1000;
+    public static MAX_POLLING_BACKOFF = 8;
+    private static pollingSlots = 0;
+
     protected client?: Client;
 
     protected readonly accessories: PlatformAccessory[] = [];
     protected readonly enqueuedAccessoriesCache: EnqueuedAccessoryMap = {};
+    private readonly restoredAccessoryUUIDs: string[] = [];
 
     private lastInitRequestTimestamp: number = -1;
+    private pollingSlot?: number;
+    private pollingTimer?: Timeout;
+    private pollingBackoff = 1;
     protected removeLegacyService = false;
 
     /**
@@ -101,7 +117,7 @@ export class Accessories<T extends AccessoryInterface> {
     }
 
     protected findAccessoryWithDeviceID(deviceID: string): PlatformAccessory | undefined {
-        for(let accessory of this.accessories) {
+        for(const accessory of this.accessories) {
             if(accessory.context.deviceID === deviceID) {
                 return accessory;
             }
@@ -109,7 +125,7 @@ export class Accessories<T extends AccessoryInterface> {
         return undefined;
     }
 
-    private enqueueControllableAccessories(controlInfo: any, keysToKeep: string[] = []) {
+    private enqueueControllableAccessories(controlInfo: ControlInfo, keysToKeep: string[] = []) {
         const devices = controlInfo[this.getDeviceType()];
         if(!devices) {
             return;
@@ -132,11 +148,87 @@ export class Accessories<T extends AccessoryInterface> {
                 uid: 'all'
             }]
         }, Types.DEVICE, DeviceSubTypes.QUERY_REQUEST);
+        this.startPolling();
     }
 
-    private verifyAndFlushEnqueuedAccessories(body: any): any[] {
-        const items = body['item'] || [];
-        const filtered: any[] = [];
+    /**
+     * @return Polling interval in milliseconds, 0 if polling is disabled
+     */
+    protected getPollingInterval(): number {
+        const interval = this.config.polling?.[this.getDeviceType() as keyof PollingConfig];
+        if(interval === undefined || interval === null) {
+            return Accessories.DEFAULT_POLLING_INTERVAL * 1000;
+        }
+        if(interval <= 0) {
+            return 0;
+        }
+        return Math.max(Accessories.MIN_POLLING_INTERVAL, interval) * 1000;
+    }
+
+    private startPolling() {
+        if(this.pollingSlot !== undefined || this.getPollingInterval() === 0) {
+            return;
+        }
+        // NOTE: each device type takes its own slot, so that the queries of device types don't burst at once
+        this.pollingSlot = Accessories.pollingSlots++;
+        this.client?.registerConnectionStateListener((state) => {
+            if(state !== ConnectionState.READY || this.pollingBackoff === 1) {
+                return;
+            }
+            // The connection has been recovered while backing off
+            this.pollingBackoff = 1;
+            this.schedulePolling();
+        });
+        this.schedulePolling();
+    }
+
+    private schedulePolling() {
+        if(this.pollingTimer) {
+            clearTimeout(this.pollingTimer);
+        }
+        const delay = this.getPollingInterval() * this.pollingBackoff + (this.pollingSlot || 0) * Accessories.POLLING_STAGGER;
+        this.pollingTimer = setTimeout(() => this.poll(), delay);
+    }
+
+    private async poll() {
+        this.pollingTimer = undefined;
+        if(this.client === undefined) {
+            return;
+        }
+        if(this.client.getConnectionState() !== ConnectionState.READY) {
+            this.pollingBackoff = Math.min(Accessories.MAX_POLLING_BACKOFF, this.pollingBackoff * 2);
+            this.log.debug("Polling %s is deferred due to the unhealthy connection", this.getDeviceType());
+            this.schedulePolling();
+            return;
+        }
+        try {
+            await this.queryDeviceStates();
+            this.pollingBackoff = 1;
+        } catch(e) {
+            this.pollingBackoff = Math.min(Accessories.MAX_POLLING_BACKOFF, this.pollingBackoff * 2);
+            this.log.debug("Polling %s has failed: %s", this.getDeviceType(), e);
+        }
+        this.schedulePolling();
+    }
+
+    /**
+     * Queries states of every device of the device type periodically.
+     * The responses are consumed by the device state listener of each accessories.
+     */
+    protected async queryDeviceStates() {
+        await this.client?.sendDeferredRequest({
+            type: 'query',
+            item: [{
+                device: this.getDeviceType(),
+                uid: 'all'
+            }]
+        }, Types.DEVICE, DeviceSubTypes.QUERY_REQUEST, DeviceSubTypes.QUERY_RESPONSE, (body) => {
+            return (body['item'] || []).some((item) => item['device'] === this.getDeviceType());
+        });
+    }
+
+    private verifyAndFlushEnqueuedAccessories(items: DeviceItem[]): any[] {
+        const filtered: DeviceItem[] = [];
         for(let i = 0; i < items.length; i++) {
             const item = items[i];
             const deviceType = item['device'];
@@ -169,19 +261,56 @@ export class Accessories<T extends AccessoryInterface> {
         return accessories;
     }
 
-    protected registerLazyAccessories(body: any, registrar: (deviceID: string, displayName: string, info?: any) => T) {
-        const devices = this.verifyAndFlushEnqueuedAccessories(body);
+    protected registerLazyAccessories(items: DeviceItem[], registrar: (deviceID: string, displayName: string, info?: any) => T) {
+        const devices = this.verifyAndFlushEnqueuedAccessories(items);
         for(const device of devices) {
-            this.addAccessory(registrar(device.deviceID, device.displayName, device.info));
+            const context = registrar(device.deviceID, device.displayName, device.info);
+            context.deviceCapabilities = CapabilityDiscovery.fromDeviceInfo(this.getDeviceType(), device.info, this.getSeededCapabilities(context));
+            this.addAccessory(context);
         }
     }
 
-    addAccessory(context: T): PlatformAccessory | undefined {
-        if(this.client?.isNetworkRefreshing()) {
-            // This prevents changing the accessories to uninitialized state while refreshing the connection.
-            // Uninitialized state makes the accessories are no response in Home app.
-            return undefined;
+    /**
+     * Accumulates the capabilities of the accessories from the device items,
+     * which are kept in the context so that the characteristics are built before the first response after restarts.
+     *
+     * @return Accessories whose capabilities have been changed
+     */
+    protected discoverCapabilities(items: DeviceItem[]): PlatformAccessory[] {
+        const changed: PlatformAccessory[] = [];
+        for(const item of items) {
+            if(item['device'] !== this.getDeviceType()) {
+                continue;
+            }
+            const accessory = this.findAccessoryWithDeviceID(item['uid']);
+            if(!accessory) {
+                continue;
+            }
+            const context = this.getAccessoryInterface(accessory);
+            const capabilities = CapabilityDiscovery.fromDeviceItem(item, this.getSeededCapabilities(context));
+            if(CapabilityDiscovery.equals(context.deviceCapabilities, capabilities)) {
+                continue;
+            }
+            this.log.debug("Capabilities of %s have been discovered: %s", accessory.displayName, JSON.stringify(capabilities));
+            context.deviceCapabilities = capabilities;
+            changed.push(accessory);
         }
+        return changed;
+    }
+
+    private getSeededCapabilities(context: T): DeviceCapabilities {
+        return context.deviceCapabilities || CapabilityDiscovery.seed(this.getDeviceType(), this.client?.getComplex()?.directoryName);
+    }
+
+    /**
+     * @return Capabilities discovered so far, overridden by the device config
+     */
+    protected getCapabilities(accessory: PlatformAccessory): DeviceCapabilities {
+        const context = this.getAccessoryInterface(accessory);
+        return CapabilityDiscovery.override(context.deviceCapabilities, this.findDeviceInfoFromAccessory(accessory)?.capabilities);
+    }
+
+    addAccessory(context: T): PlatformAccessory | undefined {
         // accessory type must be specified for proper uuid generation
         context.accessoryType = this.getDeviceType();
         const deviceInfo = this.findDeviceInfo(context.deviceID, context.displayName);
@@ -195,6 +324,11 @@ export class Accessories<T extends AccessoryInterface> {
             const cachedAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
             const isLegacy = i === 0;
 
+            if(cachedAccessory && this.restoredAccessoryUUIDs.includes(uuid)) {
+                // This prevents changing the accessories to uninitialized state after reconnecting to the server.
+                // Uninitialized state makes the accessories are no response in Home app.
+                return cachedAccessory;
+            }
             if(cachedAccessory) {
                 this.log.debug("Found cached UUID (%s) generated from %s %s", uuid, seed, isLegacy ? "(Legacy)" : "");
                 if(deviceInfo && deviceInfo.disabled) {
@@ -204,10 +338,13 @@ export class Accessories<T extends AccessoryInterface> {
                     return undefined;
                 }
                 const version = cachedAccessory.context.version;
+                const capabilities = CapabilityDiscovery.merge(cachedAccessory.context.deviceCapabilities, context.deviceCapabilities);
                 cachedAccessory.context = context;
                 cachedAccessory.context.version = version; // Always keep first-initial version for compatibility management
+                cachedAccessory.context.deviceCapabilities = capabilities; // Capabilities are only accumulated
                 cachedAccessory.context.accessoryType = this.getDeviceType();
                 cachedAccessory.context.init = false;
+                this.restoredAccessoryUUIDs.push(uuid);
 
                 if(isLegacy) {
                     this.log.info("Restoring cached legacy accessory: %s (%s, %s)", context.displayName, context.deviceID, this.getDeviceType());
@@ -241,13 +378,14 @@ export class Accessories<T extends AccessoryInterface> {
         this.log.info("Adding new accessory: %s (%s, %s)", context.displayName, context.deviceID, this.getDeviceType());
         const accessory = new this.api.platformAccessory(context.displayName, uuid);
 
-        let services = this.serviceTypes.map((serviceType) => {
+        const services = this.serviceTypes.map((serviceType) => {
             return accessory.getService(serviceType) || accessory.addService(serviceType, context.displayName);
         })
         accessory.context = context;
         accessory.context.version = Utils.currentSemanticVersion().toString();
         accessory.context.accessoryType = this.getDeviceType();
         accessory.context.init = false;
+        this.restoredAccessoryUUIDs.push(uuid);
 
         this.api.registerPlatformAccessories(Utils.PLUGIN_NAME, Utils.PLATFORM_NAME, [ accessory ]);
         this.configureAccessory(accessory, services);
@@ -276,6 +414,10 @@ export class Accessories<T extends AccessoryInterface> {
         this.log.info("Identifying %s", accessory.displayName);
     }
 
+    protected createCommunicationFailure(): Error {
+        return new this.api.hap.HapStatusError(this.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+
     protected checkAccessoryAvailability(accessory: PlatformAccessory, callback: CharacteristicGetCallback): boolean {
         this.client?.checkKeepAlive();
         if(accessory.context.init) {
@@ -296,14 +438,21 @@ export class Accessories<T extends AccessoryInterface> {
         this.lastInitRequestTimestamp = currentTime;
         this.client?.sendUnreliableRequest({
             type: 'query',
-            item: [{
-                device: this.getDeviceType(),
-                uid: 'all'
-            }]
+            item: this.getInitQueryTargets()
         }, Types.DEVICE, DeviceSubTypes.QUERY_REQUEST);
     }
 
-    matchesAccessoryDeviceID(accessory: PlatformAccessory, body: any): boolean {
+    /**
+     * Devices to query for the accessory initialization
+     */
+    protected getInitQueryTargets(): DeviceTarget[] {
+        return [{
+            device: this.getDeviceType(),
+            uid: 'all'
+        }];
+    }
+
+    matchesAccessoryDeviceID(accessory: PlatformAccessory, body: DeviceResponse): boolean {
         const items = body['item'] || [];
         for(let i = 0; i < items.length; i++) {
             const item = items[i];
@@ -337,6 +486,20 @@ export class Accessories<T extends AccessoryInterface> {
     registerAccessories() {
     }
 
+    /**
+     * Subscribes the device states of the device type from the state store of the client.
+     * Devices controlled by other clients such as the wall pad or the official app are notified through here as well.
+     */
+    protected registerDeviceStateListener(refresh: (items: DeviceItem[], source: DeviceStateSource) => void) {
+        this.client?.registerDeviceStateListener((changes) => {
+            const source = changes[0].source;
+            if(source === DeviceStateSource.NOTIFICATION) {
+                this.log.debug("Device changes of %s have been notified: %s", this.getDeviceType(), changes.map((change) => change.uid).join(", "));
+            }
+            refresh(changes.map((change) => change.state), source);
+        }, this.getDeviceType());
+    }
+
     registerListeners() {
         this.client?.registerResponseListener(Types.LOGIN, LoginSubTypes.MENU_RESPONSE, (body) => {
             this.enqueueControllableAccessories(body['controlinfo'], this.deviceInfoKeys);
@@ -233,7 +233,7 @@ export class CameraAccessories extends Accessories<CameraAccessoryInterface> {
                 return true;
             }).then((histories) => {
                 return histories["list"][0]; // the first history
-            }).then((history: any): VisitorOnCameraInfo => {
+            }).then((history): VisitorOnCameraInfo => {
                 return {
                     index: parseInt(history["index"]),
                     cameraLocation: history["location"] as CameraLocation,
@@ -481,9 +481,7 @@ class VisitorOnCameraStreamingDelegate implements CameraStreamingDelegate {
     }
 
     private fetchSnapshot(snapshotFilter?: string): Promise<Buffer> {
-        this.snapshotPromise = new Promise(async (resolve, reject) => {
-            const snapshot = this.context.visitorInfo?.snapshot || await this.createAlternativeSnapshot();
-
+        this.snapshotPromise = this.getSnapshotSource().then((snapshot) => new Promise((resolve, reject) => {
             const startTime = Date.now();
             const args: string[] = [];
             args.push("-i pipe:");
@@ -540,10 +538,14 @@ class VisitorOnCameraStreamingDelegate implements CameraStreamingDelegate {
                 }
             });
             ffmpeg.stdin.end(snapshot);
-        });
+        }));
         return this.snapshotPromise;
     }
 
+    private async getSnapshotSource(): Promise<Buffer> {
+        return this.context.visitorInfo?.snapshot || await this.createAlternativeSnapshot();
+    }
+
     private createRandomCharacterGenerator(characterSet: string, length: number) {
         return () => {
             let code = '';
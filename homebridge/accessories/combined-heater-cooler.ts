@@ -0,0 +1,424 @@
+import {Accessories, AccessoryInterface} from "./accessories";
+import {
+    API,
+    CharacteristicEventTypes,
+    CharacteristicGetCallback,
+    CharacteristicSetCallback,
+    CharacteristicValue,
+    Logging,
+    PlatformAccessory,
+    Service
+} from "homebridge";
+import {DaelimConfig, HeaterCoolerRoom} from "../../core/interfaces/daelim-config";
+import {ControlInfo, DeviceItem, DeviceTarget} from "../../core/interfaces/messages";
+import {LoginSubTypes, Types} from "../../core/fields";
+import {Utils} from "../../core/utils";
+import {HeaterAccessories} from "./heater";
+import {CoolerAccessories, CoolerMode} from "./cooler";
+
+export enum CombinedTargetState {
+    HEAT = "heat",
+    COOL = "cool",
+    AUTO = "auto"
+}
+
+interface CombinedHeaterCoolerAccessoryInterface extends AccessoryInterface {
+
+    heatingID: string
+    coolingID: string
+    targetState?: CombinedTargetState
+
+}
+
+interface RoomDeviceState {
+    active: boolean
+    desiredTemperature: number
+    currentTemperature: number
+}
+
+const HEATING_DEVICE_TYPE = "heating";
+const COOLING_DEVICE_TYPE = "cooling";
+
+/**
+ * A HeaterCooler accessory combining the heating and the cooling devices of a room.
+ * It holds no device states by itself, the states are read from the state store of the client,
+ * and the invokes are routed to the heating or the cooling device.
+ */
+export class CombinedHeaterCoolerAccessories extends Accessories<CombinedHeaterCoolerAccessoryInterface> {
+
+    constructor(log: Logging, api: API, config: DaelimConfig) {
+        super(log, api, config, ["heatercooler"], [api.hap.Service.HeaterCooler]);
+    }
+
+    configureAccessory(accessory: PlatformAccessory, services: Service[]) {
+        super.configureAccessory(accessory, services);
+        const service = this.ensureServiceAvailability(this.api.hap.Service.HeaterCooler, services);
+
+        service.getCharacteristic(this.api.hap.Characteristic.Active)
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const isActive = value === this.api.hap.Characteristic.Active.ACTIVE;
+                if(this.isActive(accessory) === isActive) {
+                    callback(undefined);
+                    return;
+                }
+                const succeeded = isActive ? await this.applyTargetState(accessory) : await this.deactivate(accessory);
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, this.isActive(accessory) ? this.api.hap.Characteristic.Active.ACTIVE : this.api.hap.Characteristic.Active.INACTIVE);
+            });
+
+        service.getCharacteristic(this.api.hap.Characteristic.CurrentHeaterCoolerState)
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, this.getCurrentHeaterCoolerState(accessory));
+            });
+
+        service.getCharacteristic(this.api.hap.Characteristic.TargetHeaterCoolerState)
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const context = accessory.context as CombinedHeaterCoolerAccessoryInterface;
+                const targetState = this.fromTargetHeaterCoolerState(value);
+                if(this.getTargetState(accessory) === targetState) {
+                    callback(undefined);
+                    return;
+                }
+                context.targetState = targetState;
+                if(!this.isActive(accessory)) {
+                    // Applied when the accessory is turned on
+                    callback(undefined);
+                    return;
+                }
+                const succeeded = await this.applyTargetState(accessory);
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, this.getTargetHeaterCoolerState(accessory));
+            });
+
+        service.getCharacteristic(this.api.hap.Characteristic.HeatingThresholdTemperature)
+            .setProps({
+                minValue: HeaterAccessories.MINIMUM_TEMPERATURE,
+                maxValue: HeaterAccessories.MAXIMUM_TEMPERATURE,
+                minStep: 1
+            })
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const succeeded = await this.invokeThresholdTemperature(accessory, HEATING_DEVICE_TYPE, value as number);
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, this.getThresholdTemperature(accessory, HEATING_DEVICE_TYPE));
+            });
+
+        service.getCharacteristic(this.api.hap.Characteristic.CoolingThresholdTemperature)
+            .setProps({
+                minValue: CoolerAccessories.MINIMUM_TEMPERATURE,
+                maxValue: CoolerAccessories.MAXIMUM_TEMPERATURE,
+                minStep: 1
+            })
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const succeeded = await this.invokeThresholdTemperature(accessory, COOLING_DEVICE_TYPE, value as number);
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, this.getThresholdTemperature(accessory, COOLING_DEVICE_TYPE));
+            });
+
+        service.getCharacteristic(this.api.hap.Characteristic.CurrentTemperature)
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, this.getCurrentTemperature(accessory));
+            });
+    }
+
+    /**
+     * Pairs the rooms explicitly configured first, then the rooms having the same name if enabled
+     */
+    pairRooms(controlInfo: ControlInfo): HeaterCoolerRoom[] {
+        const heatingDevices = controlInfo[HEATING_DEVICE_TYPE] || [];
+        const coolingDevices = controlInfo[COOLING_DEVICE_TYPE] || [];
+        const rooms: HeaterCoolerRoom[] = [];
+        const isPaired = (uid: string) => rooms.some((room) => room.heating === uid || room.cooling === uid);
+
+        for(const room of this.config.heaterCooler?.rooms || []) {
+            if(isPaired(room.heating) || isPaired(room.cooling)) {
+                this.log.warn("The room %s is paired with the devices already paired", room.name);
+                continue;
+            }
+            if(!heatingDevices.some((device) => device.uid === room.heating) || !coolingDevices.some((device) => device.uid === room.cooling)) {
+                this.log.warn("The devices of the room %s are not found (heating: %s, cooling: %s)", room.name, room.heating, room.cooling);
+                continue;
+            }
+            rooms.push(room);
+        }
+        if(this.config.heaterCooler?.combineRooms) {
+            for(const heatingDevice of heatingDevices) {
+                if(isPaired(heatingDevice.uid)) {
+                    continue;
+                }
+                const coolingDevice = coolingDevices.find((device) => device.uname === heatingDevice.uname && !isPaired(device.uid));
+                if(coolingDevice) {
+                    rooms.push({
+                        name: heatingDevice.uname,
+                        heating: heatingDevice.uid,
+                        cooling: coolingDevice.uid
+                    });
+                }
+            }
+        }
+        return rooms;
+    }
+
+    private registerRooms(controlInfo: ControlInfo) {
+        const rooms = this.pairRooms(controlInfo);
+        const deviceIDs = rooms.map((room) => CombinedHeaterCoolerAccessories.createDeviceID(room));
+        // NOTE: the cached accessories of the rooms no longer combined must be taken down
+        const takedown = this.accessories.filter((accessory) => !deviceIDs.includes(accessory.context.deviceID));
+        if(takedown.length) {
+            this.api.unregisterPlatformAccessories(Utils.PLUGIN_NAME, Utils.PLATFORM_NAME, takedown);
+            for(const accessory of takedown) {
+                this.log.info("Removing combined accessory: %s (%s)", accessory.displayName, accessory.context.deviceID);
+                this.accessories.splice(this.accessories.indexOf(accessory), 1);
+            }
+        }
+        for(const room of rooms) {
+            const accessory = this.addAccessory({
+                deviceID: CombinedHeaterCoolerAccessories.createDeviceID(room),
+                displayName: room.name,
+                init: false,
+                heatingID: room.heating,
+                coolingID: room.cooling
+            });
+            if(accessory) {
+                this.refreshRoomState(accessory);
+            }
+        }
+    }
+
+    static createDeviceID(room: HeaterCoolerRoom): string {
+        return `${room.heating}:${room.cooling}`;
+    }
+
+    refreshRoomState(accessory: PlatformAccessory) {
+        const context = accessory.context as CombinedHeaterCoolerAccessoryInterface;
+        const heating = this.getRoomDeviceState(accessory, HEATING_DEVICE_TYPE);
+        const cooling = this.getRoomDeviceState(accessory, COOLING_DEVICE_TYPE);
+        if(!heating || !cooling) {
+            return;
+        }
+        context.init = true;
+        // Follow the devices controlled by other accessories or clients, which are not covered by the target state
+        const targetState = this.getTargetState(accessory);
+        const heatingTargeted = targetState === CombinedTargetState.HEAT || targetState === CombinedTargetState.AUTO;
+        const coolingTargeted = targetState === CombinedTargetState.COOL || targetState === CombinedTargetState.AUTO;
+        if((heating.active && !heatingTargeted) || (cooling.active && !coolingTargeted)) {
+            context.targetState = this.deriveTargetState(heating, cooling);
+        }
+        this.findService(accessory, this.api.hap.Service.HeaterCooler, (service) => {
+            service.updateCharacteristic(this.api.hap.Characteristic.Active, this.isActive(accessory) ? this.api.hap.Characteristic.Active.ACTIVE : this.api.hap.Characteristic.Active.INACTIVE);
+            service.updateCharacteristic(this.api.hap.Characteristic.CurrentHeaterCoolerState, this.getCurrentHeaterCoolerState(accessory));
+            service.updateCharacteristic(this.api.hap.Characteristic.TargetHeaterCoolerState, this.getTargetHeaterCoolerState(accessory));
+            service.updateCharacteristic(this.api.hap.Characteristic.HeatingThresholdTemperature, this.getThresholdTemperature(accessory, HEATING_DEVICE_TYPE));
+            service.updateCharacteristic(this.api.hap.Characteristic.CoolingThresholdTemperature, this.getThresholdTemperature(accessory, COOLING_DEVICE_TYPE));
+            service.updateCharacteristic(this.api.hap.Characteristic.CurrentTemperature, this.getCurrentTemperature(accessory));
+        });
+    }
+
+    private deriveTargetState(heating: RoomDeviceState, cooling: RoomDeviceState): CombinedTargetState {
+        if(heating.active && cooling.active) {
+            return CombinedTargetState.AUTO;
+        }
+        return cooling.active ? CombinedTargetState.COOL : CombinedTargetState.HEAT;
+    }
+
+    private getRoomDeviceID(accessory: PlatformAccessory, deviceType: string): string {
+        const context = accessory.context as CombinedHeaterCoolerAccessoryInterface;
+        return deviceType === HEATING_DEVICE_TYPE ? context.heatingID : context.coolingID;
+    }
+
+    private getRoomDeviceItem(accessory: PlatformAccessory, deviceType: string): DeviceItem | undefined {
+        return this.client?.getDeviceStates().get(deviceType, this.getRoomDeviceID(accessory, deviceType));
+    }
+
+    private getRoomDeviceState(accessory: PlatformAccessory, deviceType: string): RoomDeviceState | undefined {
+        const item = this.getRoomDeviceItem(accessory, deviceType);
+        if(!item) {
+            return undefined;
+        }
+        const minimumTemperature = deviceType === HEATING_DEVICE_TYPE ? HeaterAccessories.MINIMUM_TEMPERATURE : CoolerAccessories.MINIMUM_TEMPERATURE;
+        const desiredTemperature = parseInt(item['arg2'] || '') || 0;
+        // Coolers in the fan or the dehumidify mode are neither heating nor cooling the room
+        const otherMode = item['arg4'] === CoolerMode.FAN || item['arg4'] === CoolerMode.DEHUMIDIFY;
+        return {
+            active: item['arg1'] === 'on' && desiredTemperature >= minimumTemperature && !otherMode,
+            desiredTemperature: desiredTemperature,
+            currentTemperature: parseInt(item['arg3'] || '') || 0
+        };
+    }
+
+    isActive(accessory: PlatformAccessory): boolean {
+        return !!this.getRoomDeviceState(accessory, HEATING_DEVICE_TYPE)?.active
+            || !!this.getRoomDeviceState(accessory, COOLING_DEVICE_TYPE)?.active;
+    }
+
+    getTargetState(accessory: PlatformAccessory): CombinedTargetState {
+        return (accessory.context as CombinedHeaterCoolerAccessoryInterface).targetState || CombinedTargetState.HEAT;
+    }
+
+    getTargetHeaterCoolerState(accessory: PlatformAccessory): CharacteristicValue {
+        switch(this.getTargetState(accessory)) {
+            case CombinedTargetState.COOL:
+                return this.api.hap.Characteristic.TargetHeaterCoolerState.COOL;
+            case CombinedTargetState.AUTO:
+                return this.api.hap.Characteristic.TargetHeaterCoolerState.AUTO;
+            default:
+                return this.api.hap.Characteristic.TargetHeaterCoolerState.HEAT;
+        }
+    }
+
+    private fromTargetHeaterCoolerState(value: CharacteristicValue): CombinedTargetState {
+        switch(value) {
+            case this.api.hap.Characteristic.TargetHeaterCoolerState.COOL:
+                return CombinedTargetState.COOL;
+            case this.api.hap.Characteristic.TargetHeaterCoolerState.AUTO:
+                return CombinedTargetState.AUTO;
+            default:
+                return CombinedTargetState.HEAT;
+        }
+    }
+
+    getCurrentHeaterCoolerState(accessory: PlatformAccessory): CharacteristicValue {
+        const heating = this.getRoomDeviceState(accessory, HEATING_DEVICE_TYPE);
+        const cooling = this.getRoomDeviceState(accessory, COOLING_DEVICE_TYPE);
+        if(cooling?.active && cooling.desiredTemperature < cooling.currentTemperature) {
+            return this.api.hap.Characteristic.CurrentHeaterCoolerState.COOLING;
+        }
+        if(heating?.active && heating.desiredTemperature > heating.currentTemperature) {
+            return this.api.hap.Characteristic.CurrentHeaterCoolerState.HEATING;
+        }
+        if(heating?.active || cooling?.active) {
+            return this.api.hap.Characteristic.CurrentHeaterCoolerState.IDLE;
+        }
+        return this.api.hap.Characteristic.CurrentHeaterCoolerState.INACTIVE;
+    }
+
+    getThresholdTemperature(accessory: PlatformAccessory, deviceType: string): CharacteristicValue {
+        const state = this.getRoomDeviceState(accessory, deviceType);
+        const [minimum, maximum] = deviceType === HEATING_DEVICE_TYPE
+            ? [HeaterAccessories.MINIMUM_TEMPERATURE, HeaterAccessories.MAXIMUM_TEMPERATURE]
+            : [CoolerAccessories.MINIMUM_TEMPERATURE, CoolerAccessories.MAXIMUM_TEMPERATURE];
+        return Math.max(minimum, Math.min(maximum, state?.desiredTemperature || 0));
+    }
+
+    getCurrentTemperature(accessory: PlatformAccessory): CharacteristicValue {
+        const heating = this.getRoomDeviceState(accessory, HEATING_DEVICE_TYPE);
+        const cooling = this.getRoomDeviceState(accessory, COOLING_DEVICE_TYPE);
+        if(cooling?.active || !heating) {
+            return cooling?.currentTemperature || 0;
+        }
+        return heating.currentTemperature;
+    }
+
+    /**
+     * Turns on the devices required by the target state, and turns off the others
+     */
+    private async applyTargetState(accessory: PlatformAccessory): Promise<boolean> {
+        const targetState = this.getTargetState(accessory);
+        const heating = targetState === CombinedTargetState.HEAT || targetState === CombinedTargetState.AUTO;
+        const cooling = targetState === CombinedTargetState.COOL || targetState === CombinedTargetState.AUTO;
+        const results = await Promise.all([
+            this.invokeActive(accessory, HEATING_DEVICE_TYPE, heating),
+            this.invokeActive(accessory, COOLING_DEVICE_TYPE, cooling)
+        ]);
+        return results.every((succeeded) => succeeded);
+    }
+
+    private async deactivate(accessory: PlatformAccessory): Promise<boolean> {
+        const results = await Promise.all([
+            this.invokeActive(accessory, HEATING_DEVICE_TYPE, false),
+            this.invokeActive(accessory, COOLING_DEVICE_TYPE, false)
+        ]);
+        return results.every((succeeded) => succeeded);
+    }
+
+    private async invokeActive(accessory: PlatformAccessory, deviceType: string, isActive: boolean): Promise<boolean> {
+        if(!!this.getRoomDeviceState(accessory, deviceType)?.active === isActive) {
+            return true;
+        }
+        const item: DeviceItem = {
+            device: deviceType,
+            uid: this.getRoomDeviceID(accessory, deviceType),
+            arg1: isActive ? "on" : "off"
+        };
+        const mode = this.getRoomDeviceItem(accessory, deviceType)?.['arg4'];
+        if(isActive && (mode === CoolerMode.FAN || mode === CoolerMode.DEHUMIDIFY)) {
+            item.arg4 = CoolerMode.COOL;
+        }
+        return await this.invoke(item);
+    }
+
+    private async invokeThresholdTemperature(accessory: PlatformAccessory, deviceType: string, temperature: number): Promise<boolean> {
+        const state = this.getRoomDeviceState(accessory, deviceType);
+        if(!state || state.desiredTemperature === temperature || !state.active) {
+            // Temperature slider of the device is disabled when the device is not active
+            return true;
+        }
+        return await this.invoke({
+            device: deviceType,
+            uid: this.getRoomDeviceID(accessory, deviceType),
+            arg1: "on",
+            arg2: temperature.toString()
+        });
+    }
+
+    private async invoke(item: DeviceItem): Promise<boolean> {
+        // The responses update the state store, which refreshes the accessories
+        const response = await this.client?.sendInvokeRequest(item).catch(_ => {
+            return undefined;
+        });
+        return response !== undefined;
+    }
+
+    protected getInitQueryTargets(): DeviceTarget[] {
+        return [{
+            device: HEATING_DEVICE_TYPE,
+            uid: 'all'
+        }, {
+            device: COOLING_DEVICE_TYPE,
+            uid: 'all'
+        }];
+    }
+
+    registerListeners() {
+        super.registerListeners();
+        this.client?.registerResponseListener(Types.LOGIN, LoginSubTypes.MENU_RESPONSE, (body) => {
+            this.registerRooms(body['controlinfo'] || {});
+        });
+        for(const deviceType of [HEATING_DEVICE_TYPE, COOLING_DEVICE_TYPE]) {
+            this.client?.registerDeviceStateListener((changes) => {
+                const uids = changes.map((change) => change.uid);
+                for(const accessory of this.accessories) {
+                    if(uids.includes(this.getRoomDeviceID(accessory, deviceType))) {
+                        this.refreshRoomState(accessory);
+                    }
+                }
+            }, deviceType);
+        }
+    }
+
+}
@@ -1,12 +1,398 @@
 import {HeaterCoolerAccessories, HeaterCoolerAccessoryInterface} from "./heater-cooler";
-import {API, Characteristic, CharacteristicValue, Logging, PlatformAccessory} from "homebridge";
+import {
+    API,
+    Characteristic,
+    CharacteristicEventTypes,
+    CharacteristicGetCallback,
+    CharacteristicSetCallback,
+    CharacteristicValue,
+    Formats,
+    Logging,
+    PlatformAccessory,
+    Service
+} from "homebridge";
 import {DaelimConfig} from "../../core/interfaces/daelim-config";
+import {DeviceItem} from "../../core/interfaces/messages";
+import {DeviceStateSource} from "../../core/device-state";
+import {FAN_ROTATION_SPEED_UNIT} from "./fan";
 import {WithUUID} from "hap-nodejs";
 
+export enum CoolerMode {
+    COOL = "cool",
+    DEHUMIDIFY = "dehumidify",
+    FAN = "fan",
+    AUTO = "auto"
+}
+
+export enum CoolerCapability {
+    MODE = "mode",
+    FAN_SPEED = "fanSpeed",
+    SWING = "swing"
+}
+
+interface CoolerAccessoryInterface extends HeaterCoolerAccessoryInterface {
+
+    mode?: CoolerMode
+    fanSpeed?: string
+    swing?: boolean
+    capabilities?: CoolerCapability[]
+
+}
+
+/**
+ * Additional arguments of cooling devices, which are not supported by every complex:
+ * arg4 is the operation mode, arg5 is the fan speed from "01" to "03" and arg6 is the swing state.
+ * The capabilities are probed from the arguments present in query responses, and only accumulated
+ * since the arguments may be empty depending on the state of the device, such as while turned off.
+ */
 export class CoolerAccessories extends HeaterCoolerAccessories {
 
+    public static MINIMUM_TEMPERATURE = 18;
+    public static MAXIMUM_TEMPERATURE = 30;
+    public static FAN_SERVICE_SUBTYPE = "fan-mode";
+    public static FAN_SERVICE_NAME = "송풍";
+    public static DEHUMIDIFIER_SERVICE_SUBTYPE = "dehumidify-mode";
+    public static DEHUMIDIFIER_SERVICE_NAME = "제습";
+
+    private readonly configuredCapabilities = new WeakMap<PlatformAccessory, CoolerCapability[]>();
+
     constructor(log: Logging, api: API, config: DaelimConfig) {
-        super(log, api, config, ["cooling", "cooler"], 18, 30);
+        super(log, api, config, ["cooling", "cooler"], CoolerAccessories.MINIMUM_TEMPERATURE, CoolerAccessories.MAXIMUM_TEMPERATURE);
+    }
+
+    configureAccessory(accessory: PlatformAccessory, services: Service[]) {
+        super.configureAccessory(accessory, services);
+        this.configureCapabilities(accessory);
+    }
+
+    /**
+     * Shows the characteristics and the services of the probed capabilities, and takes down the others
+     */
+    configureCapabilities(accessory: PlatformAccessory) {
+        const service = accessory.getService(this.api.hap.Service.HeaterCooler);
+        if(!service) {
+            return;
+        }
+        const capabilities = (accessory.context as CoolerAccessoryInterface).capabilities || [];
+        const configured = this.configuredCapabilities.get(accessory) || [];
+        for(const capability of Object.values(CoolerCapability)) {
+            const supported = capabilities.includes(capability);
+            if(supported && !configured.includes(capability)) {
+                this.configureCapability(accessory, service, capability);
+            } else if(!supported) {
+                this.takeDownCapability(accessory, service, capability);
+            }
+        }
+        this.configuredCapabilities.set(accessory, [...capabilities]);
+
+        const targetStates = capabilities.includes(CoolerCapability.MODE) ? [
+            this.api.hap.Characteristic.TargetHeaterCoolerState.AUTO,
+            this.api.hap.Characteristic.TargetHeaterCoolerState.COOL
+        ] : this.getAvailableTargetHeaterCoolerStates();
+        service.getCharacteristic(this.api.hap.Characteristic.TargetHeaterCoolerState)
+            .setProps({
+                validValues: targetStates
+            });
+    }
+
+    private configureCapability(accessory: PlatformAccessory, service: Service, capability: CoolerCapability) {
+        switch(capability) {
+            case CoolerCapability.FAN_SPEED:
+                service.getCharacteristic(this.api.hap.Characteristic.RotationSpeed)
+                    .setProps({
+                        format: Formats.FLOAT,
+                        minValue: 0,
+                        maxValue: 100, // Up to level 3
+                        minStep: FAN_ROTATION_SPEED_UNIT
+                    })
+                    .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                        const speedIndex = Math.round((value as number) / FAN_ROTATION_SPEED_UNIT);
+                        const context = accessory.context as CoolerAccessoryInterface;
+                        const fanSpeed = `0${speedIndex}`;
+                        if(speedIndex === 0 || context.fanSpeed === fanSpeed) {
+                            // NOTE: HomeKit sets the speed to zero while turning off, which is done by Active
+                            callback(undefined);
+                            return;
+                        }
+                        const succeeded = await this.invokeHeaterCooler(accessory, {
+                            arg1: "on",
+                            arg5: fanSpeed
+                        });
+                        callback(succeeded ? undefined : this.createCommunicationFailure());
+                    })
+                    .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                        if(!this.checkAccessoryAvailability(accessory, callback)) {
+                            return;
+                        }
+                        callback(undefined, this.getRotationSpeedPercentage(accessory));
+                    });
+                break;
+            case CoolerCapability.SWING:
+                service.getCharacteristic(this.api.hap.Characteristic.SwingMode)
+                    .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                        const swing = value === this.api.hap.Characteristic.SwingMode.SWING_ENABLED;
+                        const context = accessory.context as CoolerAccessoryInterface;
+                        if(context.swing === swing) {
+                            callback(undefined);
+                            return;
+                        }
+                        const succeeded = await this.invokeHeaterCooler(accessory, {
+                            arg1: context.active ? "on" : "off", // Swinging doesn't change the power state
+                            arg6: swing ? "on" : "off"
+                        });
+                        callback(succeeded ? undefined : this.createCommunicationFailure());
+                    })
+                    .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                        if(!this.checkAccessoryAvailability(accessory, callback)) {
+                            return;
+                        }
+                        callback(undefined, this.getSwingMode(accessory));
+                    });
+                break;
+            case CoolerCapability.MODE:
+                this.configureFanService(accessory, service);
+                this.configureDehumidifierService(accessory, service);
+                break;
+        }
+    }
+
+    private takeDownCapability(accessory: PlatformAccessory, service: Service, capability: CoolerCapability) {
+        switch(capability) {
+            case CoolerCapability.FAN_SPEED:
+                if(service.testCharacteristic(this.api.hap.Characteristic.RotationSpeed)) {
+                    service.removeCharacteristic(service.getCharacteristic(this.api.hap.Characteristic.RotationSpeed));
+                }
+                break;
+            case CoolerCapability.SWING:
+                if(service.testCharacteristic(this.api.hap.Characteristic.SwingMode)) {
+                    service.removeCharacteristic(service.getCharacteristic(this.api.hap.Characteristic.SwingMode));
+                }
+                break;
+            case CoolerCapability.MODE: {
+                const modeServices = [
+                    accessory.getServiceById(this.api.hap.Service.Fanv2, CoolerAccessories.FAN_SERVICE_SUBTYPE),
+                    accessory.getServiceById(this.api.hap.Service.HumidifierDehumidifier, CoolerAccessories.DEHUMIDIFIER_SERVICE_SUBTYPE)
+                ];
+                for(const modeService of modeServices) {
+                    if(modeService) {
+                        service.removeLinkedService(modeService);
+                        accessory.removeService(modeService);
+                    }
+                }
+                break;
+            }
+        }
+    }
+
+    private configureFanService(accessory: PlatformAccessory, service: Service) {
+        const fanService = accessory.getServiceById(this.api.hap.Service.Fanv2, CoolerAccessories.FAN_SERVICE_SUBTYPE)
+            || accessory.addService(this.api.hap.Service.Fanv2, `${accessory.context.displayName} ${CoolerAccessories.FAN_SERVICE_NAME}`, CoolerAccessories.FAN_SERVICE_SUBTYPE);
+        service.addLinkedService(fanService);
+        fanService.getCharacteristic(this.api.hap.Characteristic.Active)
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const succeeded = await this.invokeMode(accessory, CoolerMode.FAN, value === this.api.hap.Characteristic.Active.ACTIVE);
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, this.getModeActive(accessory, CoolerMode.FAN));
+            });
+    }
+
+    private configureDehumidifierService(accessory: PlatformAccessory, service: Service) {
+        const dehumidifierService = accessory.getServiceById(this.api.hap.Service.HumidifierDehumidifier, CoolerAccessories.DEHUMIDIFIER_SERVICE_SUBTYPE)
+            || accessory.addService(this.api.hap.Service.HumidifierDehumidifier, `${accessory.context.displayName} ${CoolerAccessories.DEHUMIDIFIER_SERVICE_NAME}`, CoolerAccessories.DEHUMIDIFIER_SERVICE_SUBTYPE);
+        service.addLinkedService(dehumidifierService);
+        dehumidifierService.getCharacteristic(this.api.hap.Characteristic.Active)
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const succeeded = await this.invokeMode(accessory, CoolerMode.DEHUMIDIFY, value === this.api.hap.Characteristic.Active.ACTIVE);
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, this.getModeActive(accessory, CoolerMode.DEHUMIDIFY));
+            });
+        dehumidifierService.getCharacteristic(this.api.hap.Characteristic.CurrentHumidifierDehumidifierState)
+            .setProps({
+                validValues: [
+                    this.api.hap.Characteristic.CurrentHumidifierDehumidifierState.INACTIVE,
+                    this.api.hap.Characteristic.CurrentHumidifierDehumidifierState.DEHUMIDIFYING
+                ]
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, this.getCurrentDehumidifierState(accessory));
+            });
+        dehumidifierService.getCharacteristic(this.api.hap.Characteristic.TargetHumidifierDehumidifierState)
+            .setValue(this.api.hap.Characteristic.TargetHumidifierDehumidifierState.DEHUMIDIFIER)
+            .setProps({
+                validValues: [this.api.hap.Characteristic.TargetHumidifierDehumidifierState.DEHUMIDIFIER]
+            });
+    }
+
+    private probeCapabilities(items: DeviceItem[]) {
+        for(const item of items) {
+            if(item['device'] !== this.getDeviceType()) {
+                continue;
+            }
+            const accessory = this.findAccessoryWithDeviceID(item['uid']);
+            if(!accessory) {
+                continue;
+            }
+            const context = accessory.context as CoolerAccessoryInterface;
+            // NOTE: the configured capabilities survive the context replaced while restoring the accessory
+            const known = [
+                ...(context.capabilities || []),
+                ...(this.configuredCapabilities.get(accessory) || []),
+                ...CoolerAccessories.probeCapabilities(item)
+            ];
+            const capabilities = Object.values(CoolerCapability).filter((capability) => known.includes(capability));
+            if(JSON.stringify(context.capabilities || []) !== JSON.stringify(capabilities)) {
+                this.log.debug("Capabilities of the cooler %s: %s", accessory.displayName, capabilities.join(", ") || "none");
+            }
+            context.capabilities = capabilities;
+            this.configureCapabilities(accessory);
+        }
+    }
+
+    static probeCapabilities(item: DeviceItem): CoolerCapability[] {
+        const capabilities: CoolerCapability[] = [];
+        if(item['arg4'] !== undefined && Object.values(CoolerMode).includes(item['arg4'] as CoolerMode)) {
+            capabilities.push(CoolerCapability.MODE);
+        }
+        if(item['arg5'] !== undefined && item['arg5'] !== "") {
+            capabilities.push(CoolerCapability.FAN_SPEED);
+        }
+        if(item['arg6'] === "on" || item['arg6'] === "off") {
+            capabilities.push(CoolerCapability.SWING);
+        }
+        return capabilities;
+    }
+
+    registerListeners() {
+        super.registerListeners();
+        // NOTE: registered after the listener of the base class, which adds the accessories of the query
+        this.registerDeviceStateListener((items, source) => {
+            if(source === DeviceStateSource.QUERY) {
+                this.probeCapabilities(items);
+            }
+        });
+    }
+
+    protected refreshDeviceItem(accessory: PlatformAccessory, item: DeviceItem) {
+        const context = accessory.context as CoolerAccessoryInterface;
+        if(item['arg4'] !== undefined) {
+            context.mode = item['arg4'] as CoolerMode;
+        }
+        if(item['arg5'] !== undefined) {
+            context.fanSpeed = item['arg5'];
+        }
+        if(item['arg6'] !== undefined) {
+            context.swing = item['arg6'] === "on";
+        }
+    }
+
+    protected updateHeaterCoolerCharacteristics(accessory: PlatformAccessory) {
+        super.updateHeaterCoolerCharacteristics(accessory);
+        const capabilities = this.configuredCapabilities.get(accessory) || [];
+        this.findService(accessory, this.api.hap.Service.HeaterCooler, (service) => {
+            if(capabilities.includes(CoolerCapability.FAN_SPEED)) {
+                service.updateCharacteristic(this.api.hap.Characteristic.RotationSpeed, this.getRotationSpeedPercentage(accessory));
+            }
+            if(capabilities.includes(CoolerCapability.SWING)) {
+                service.updateCharacteristic(this.api.hap.Characteristic.SwingMode, this.getSwingMode(accessory));
+            }
+        });
+        if(capabilities.includes(CoolerCapability.MODE)) {
+            accessory.getServiceById(this.api.hap.Service.Fanv2, CoolerAccessories.FAN_SERVICE_SUBTYPE)
+                ?.updateCharacteristic(this.api.hap.Characteristic.Active, this.getModeActive(accessory, CoolerMode.FAN));
+            const dehumidifierService = accessory.getServiceById(this.api.hap.Service.HumidifierDehumidifier, CoolerAccessories.DEHUMIDIFIER_SERVICE_SUBTYPE);
+            dehumidifierService?.updateCharacteristic(this.api.hap.Characteristic.Active, this.getModeActive(accessory, CoolerMode.DEHUMIDIFY));
+            dehumidifierService?.updateCharacteristic(this.api.hap.Characteristic.CurrentHumidifierDehumidifierState, this.getCurrentDehumidifierState(accessory));
+        }
+    }
+
+    protected isServiceActive(accessory: PlatformAccessory): boolean {
+        const context = accessory.context as CoolerAccessoryInterface;
+        return !!context.active && !this.isInOtherMode(accessory);
+    }
+
+    protected createActiveArguments(accessory: PlatformAccessory, isActive: boolean): Partial<DeviceItem> {
+        if(isActive && this.isInOtherMode(accessory)) {
+            // Switching from the fan or the dehumidify mode
+            return {
+                arg1: "on",
+                arg4: CoolerMode.COOL
+            };
+        }
+        return super.createActiveArguments(accessory, isActive);
+    }
+
+    protected async invokeTargetHeaterCoolerState(accessory: PlatformAccessory, value: CharacteristicValue): Promise<boolean> {
+        const context = accessory.context as CoolerAccessoryInterface;
+        if(!(context.capabilities || []).includes(CoolerCapability.MODE)) {
+            // NOTE: No need to update cooler state
+            return true;
+        }
+        const mode = value === this.api.hap.Characteristic.TargetHeaterCoolerState.AUTO ? CoolerMode.AUTO : CoolerMode.COOL;
+        if(context.mode === mode || this.isInOtherMode(accessory)) {
+            // NOTE: the target state is kept while the fan or the dehumidify mode is running, turning on the service switches the mode
+            return true;
+        }
+        return await this.invokeHeaterCooler(accessory, {
+            arg4: mode
+        });
+    }
+
+    private async invokeMode(accessory: PlatformAccessory, mode: CoolerMode, isActive: boolean): Promise<boolean> {
+        const context = accessory.context as CoolerAccessoryInterface;
+        const active = !!context.active && context.mode === mode;
+        if(active === isActive) {
+            return true;
+        }
+        const succeeded = await this.invokeHeaterCooler(accessory, isActive ? {
+            arg1: "on",
+            arg4: mode
+        } : {
+            arg1: "off"
+        });
+        if(succeeded) {
+            // The mode services and the HeaterCooler service are exclusive
+            this.updateHeaterCoolerCharacteristics(accessory);
+        }
+        return succeeded;
+    }
+
+    private isInOtherMode(accessory: PlatformAccessory): boolean {
+        const mode = (accessory.context as CoolerAccessoryInterface).mode;
+        return mode === CoolerMode.FAN || mode === CoolerMode.DEHUMIDIFY;
+    }
+
+    getModeActive(accessory: PlatformAccessory, mode: CoolerMode): CharacteristicValue {
+        const context = accessory.context as CoolerAccessoryInterface;
+        return context.active && context.mode === mode ? this.api.hap.Characteristic.Active.ACTIVE : this.api.hap.Characteristic.Active.INACTIVE;
+    }
+
+    getCurrentDehumidifierState(accessory: PlatformAccessory): CharacteristicValue {
+        if(this.getModeActive(accessory, CoolerMode.DEHUMIDIFY) === this.api.hap.Characteristic.Active.ACTIVE) {
+            return this.api.hap.Characteristic.CurrentHumidifierDehumidifierState.DEHUMIDIFYING;
+        }
+        return this.api.hap.Characteristic.CurrentHumidifierDehumidifierState.INACTIVE;
+    }
+
+    getRotationSpeedPercentage(accessory: PlatformAccessory): number {
+        const speedIndex = parseInt((accessory.context as CoolerAccessoryInterface).fanSpeed || "") || 0;
+        return Math.max(0, Math.min(3, speedIndex)) * FAN_ROTATION_SPEED_UNIT;
+    }
+
+    getSwingMode(accessory: PlatformAccessory): CharacteristicValue {
+        return (accessory.context as CoolerAccessoryInterface).swing ? this.api.hap.Characteristic.SwingMode.SWING_ENABLED : this.api.hap.Characteristic.SwingMode.SWING_DISABLED;
     }
 
     getAvailableCurrentHeaterCoolerStates(): number[] {
@@ -25,13 +411,16 @@ export class CoolerAccessories extends HeaterCoolerAccessories {
 
     getCurrentHeaterCoolerState(accessory: PlatformAccessory): CharacteristicValue {
         const context = accessory.context as HeaterCoolerAccessoryInterface;
-        if(context.active && context.desiredTemperature < context.currentTemperature) {
+        if(this.isServiceActive(accessory) && context.desiredTemperature < context.currentTemperature) {
             return this.api.hap.Characteristic.CurrentHeaterCoolerState.COOLING;
         }
         return this.api.hap.Characteristic.CurrentHeaterCoolerState.INACTIVE;
     }
 
-    getTargetHeaterCoolerState(): CharacteristicValue {
+    getTargetHeaterCoolerState(accessory: PlatformAccessory): CharacteristicValue {
+        if((accessory.context as CoolerAccessoryInterface).mode === CoolerMode.AUTO) {
+            return this.api.hap.Characteristic.TargetHeaterCoolerState.AUTO;
+        }
         return this.api.hap.Characteristic.TargetHeaterCoolerState.COOL;
     }
 
@@ -52,7 +52,7 @@ export class ElevatorAccessories extends Accessories<ElevatorAccessoryInterface>
                     callback(undefined);
                     return;
                 }
-                if(!!value) {
+                if(value) {
                     const response = await this.client?.sendDeferredRequest(
                         {},
                         Types.ELEVATOR_CALL,
@@ -63,7 +63,7 @@ export class ElevatorAccessories extends Accessories<ElevatorAccessoryInterface>
                         return undefined;
                     });
                     if(response === undefined) {
-                        callback(new Error('TIMED OUT'));
+                        callback(this.createCommunicationFailure());
                         return;
                     }
                     this.enqueueElevatorCallTimeout(accessory);
@@ -11,7 +11,9 @@ import {
     Service
 } from "homebridge";
 import {DaelimConfig} from "../../core/interfaces/daelim-config";
-import {DeviceSubTypes, Types} from "../../core/fields";
+import {DeviceStateSource} from "../../core/device-state";
+import {DeviceItem} from "../../core/interfaces/messages";
+import {CapabilityDiscovery} from "../../core/capabilities";
 
 export const FAN_MENU_NAME = "환기";
 export const FAN_ROTATION_SPEED_UNIT = 100 / 3.0;
@@ -23,136 +25,371 @@ enum FanRotationSpeed {
     STRONG = "03"
 }
 
+/**
+ * Keys of the ventilation modes in the config, the values of arg3 differ by complexes
+ */
+export enum VentilationMode {
+    AUTO = "auto",
+    BYPASS = "bypass",
+    SLEEP = "sleep"
+}
+
+// NOTE: the speeds are invoked with empty arg3, which leaves the ventilation modes
+const MANUAL_MODE_VALUE = "";
+
+export enum FanCapability {
+    SPEED = "speed",
+    MODE = "mode",
+    TIMER = "timer"
+}
+
 interface FanAccessoryInterface extends AccessoryInterface {
     active: boolean
     rotationSpeed: FanRotationSpeed
+    mode?: VentilationMode
+    timer?: boolean
+    modeReported?: boolean
+    timerReported?: boolean
 }
 
-const FAN_SPEED_SUPPORTED_COMPLEXES = [
-    'naturedasan3', // 다산신도시자연앤e편한세상2차, 자연앤이편한세상3차
-    'yangju4', // e편한세상 옥정메트로포레
-    'sooncheon', // e편한세상 순천(1~10), e편한세상 순천(11~12)
-    'changwon', // e편한세상 창원파크센트럴1단지, e편한세상 창원파크센트럴2단지
-    'sunbusquare', // e편한세상 선부역 어반스퀘어
-    'inchang', // e편한세상 인창어반포레
-    'youngcheon' // e편한세상 영천1단지, e편한세상 영천2단지
-]
+const MODE_SWITCHES: { mode: VentilationMode, name: string }[] = [
+    { mode: VentilationMode.BYPASS, name: "바이패스" },
+    { mode: VentilationMode.SLEEP, name: "취침" }
+];
 
+/**
+ * Arguments of ventilators: arg1 is the power state and arg2 is the fan speed from "01" to "03".
+ * Heat-recovery ventilators also have arg3 as the ventilation mode, which is empty while controlled manually,
+ * and arg4 as the off-timer, which is empty while not reserved.
+ * The speed is supported only by some complexes, which is discovered from the speed levels in the responses or forced by the device config.
+ * The values of the modes and the off-timer differ by complexes and are given by the config.
+ * They are exposed only when represented as an air purifier, once the ventilator has reported the configured values.
+ */
 export class FanAccessories extends Accessories<FanAccessoryInterface> {
 
+    public static TIMER_SERVICE_SUBTYPE = "fan-off-timer";
+    public static TIMER_SERVICE_NAME = "꺼짐 예약";
+
+    private readonly configuredCapabilities = new WeakMap<PlatformAccessory, FanCapability[]>();
+
     constructor(log: Logging, api: API, config: DaelimConfig) {
-        super(log, api, config, ["fan"], [api.hap.Service.Fan]);
+        super(log, api, config, ["fan"], [config.fan?.airPurifier ? api.hap.Service.AirPurifier : api.hap.Service.Fan]);
+    }
+
+    private isAirPurifier(): boolean {
+        return !!this.config.fan?.airPurifier;
+    }
+
+    private getModeValue(mode: VentilationMode): string | undefined {
+        return this.config.fan?.modes?.[mode] || undefined;
+    }
+
+    private getOffTimerValue(): string | undefined {
+        return this.config.fan?.offTimer || undefined;
+    }
+
+    private getModeSwitches(): { mode: VentilationMode, name: string }[] {
+        return MODE_SWITCHES.filter((modeSwitch) => this.getModeValue(modeSwitch.mode) !== undefined);
+    }
+
+    private findVentilationMode(value: string): VentilationMode | undefined {
+        if(value === MANUAL_MODE_VALUE) {
+            return undefined;
+        }
+        return Object.values(VentilationMode).find((mode) => this.getModeValue(mode) === value);
     }
 
     configureAccessory(accessory: PlatformAccessory, services: Service[]) {
         super.configureAccessory(accessory, services);
+        const context = accessory.context as FanAccessoryInterface;
+        if(context.deviceCapabilities === undefined && accessory.services.some((service) => service.testCharacteristic(this.api.hap.Characteristic.RotationSpeed))) {
+            // Migrate the accessories cached before the capabilities, whose speed was given by the list of the complexes
+            context.deviceCapabilities = CapabilityDiscovery.override(CapabilityDiscovery.empty(), {
+                speed: "supported"
+            });
+        }
+        // NOTE: the service of the other representation is left behind when the representation has been changed
+        const legacyService = accessory.getService(this.isAirPurifier() ? this.api.hap.Service.Fan : this.api.hap.Service.AirPurifier);
+        if(legacyService) {
+            accessory.removeService(legacyService);
+        }
+        if(this.isAirPurifier()) {
+            this.configureAirPurifier(accessory, this.ensureServiceAvailability(this.api.hap.Service.AirPurifier, services));
+            return;
+        }
         const service = this.ensureServiceAvailability(this.api.hap.Service.Fan, services);
 
         service.getCharacteristic(this.api.hap.Characteristic.On)
             .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
-                // Old state is same with new state
-                const isActive = !!value;
-                if(accessory.context.active === isActive) {
-                    callback(undefined);
+                const succeeded = await this.invokeActive(accessory, !!value);
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
                     return;
                 }
-                const response = await this.client?.sendDeferredRequest({
-                    type: 'invoke',
-                    item: [{
-                        device: 'fan',
-                        uid: accessory.context.deviceID,
-                        arg1: isActive ? "on" : "off"
-                    }]
-                }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                    return this.matchesAccessoryDeviceID(accessory, body);
-                }).catch(_ => {
-                    return undefined;
-                });
-                if(response === undefined) {
-                    callback(new Error('TIMED OUT'));
+                callback(undefined, accessory.context.active ? 1 : 0);
+            });
+        this.configureCapabilities(accessory);
+    }
+
+    private configureAirPurifier(accessory: PlatformAccessory, service: Service) {
+        service.getCharacteristic(this.api.hap.Characteristic.Active)
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const succeeded = await this.invokeActive(accessory, value === this.api.hap.Characteristic.Active.ACTIVE);
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, accessory.context.active ? this.api.hap.Characteristic.Active.ACTIVE : this.api.hap.Characteristic.Active.INACTIVE);
+            });
+
+        service.getCharacteristic(this.api.hap.Characteristic.CurrentAirPurifierState)
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
                     return;
                 }
-                this.refreshFanState(response['item'] || []);
-                callback(undefined);
+                callback(undefined, this.getCurrentAirPurifierState(accessory));
+            });
+
+        service.getCharacteristic(this.api.hap.Characteristic.TargetAirPurifierState)
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const ctx = accessory.context as FanAccessoryInterface;
+                const auto = value === this.api.hap.Characteristic.TargetAirPurifierState.AUTO;
+                const autoModeValue = this.getModeValue(VentilationMode.AUTO);
+                if(auto === (ctx.mode === VentilationMode.AUTO) || autoModeValue === undefined || !this.getFanCapabilities(accessory).includes(FanCapability.MODE)) {
+                    callback(undefined);
+                    return;
+                }
+                const succeeded = await this.invokeFan(accessory, {
+                    arg3: auto ? autoModeValue : MANUAL_MODE_VALUE
+                });
+                callback(succeeded ? undefined : this.createCommunicationFailure());
             })
             .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
                 if(!this.checkAccessoryAvailability(accessory, callback)) {
                     return;
                 }
-                callback(undefined, accessory.context.active ? 1 : 0);
+                callback(undefined, this.getTargetAirPurifierState(accessory));
             });
-        if(this.client?.doesComplexMatch(FAN_SPEED_SUPPORTED_COMPLEXES)) {
-            service.getCharacteristic(this.api.hap.Characteristic.RotationSpeed)
-                .setProps({
-                    format: Formats.FLOAT,
-                    minValue: 0,
-                    maxValue: 100, // Up to level 3
-                    minStep: FAN_ROTATION_SPEED_UNIT
-                })
-                .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
-                    const ctx = accessory.context as FanAccessoryInterface;
-                    const speedIndex = Math.max(0, Math.min(3, parseInt(((value as number) / FAN_ROTATION_SPEED_UNIT).toFixed(0))));
-                    const oldRotationSpeed = ctx.rotationSpeed;
-                    const newRotationSpeed = `0${speedIndex}` as FanRotationSpeed;
-                    if(oldRotationSpeed === newRotationSpeed) {
-                        callback(undefined);
-                        return;
-                    }
-                    if(!ctx.active) {
-                        // turn on the fan
-                        const response = await this.client?.sendDeferredRequest({
-                            type: 'invoke',
-                            item: [{
-                                device: 'fan',
-                                uid: ctx.deviceID,
-                                arg1: "on"
-                            }]
-                        }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                            return this.matchesAccessoryDeviceID(accessory, body);
-                        }).catch(_ => {
-                            return undefined;
+
+        this.configureCapabilities(accessory);
+    }
+
+    /**
+     * Shows the characteristics and the switches of the capabilities found, and takes down the others
+     */
+    configureCapabilities(accessory: PlatformAccessory) {
+        const service = accessory.getService(this.isAirPurifier() ? this.api.hap.Service.AirPurifier : this.api.hap.Service.Fan);
+        if(!service) {
+            return;
+        }
+        const capabilities = this.getFanCapabilities(accessory);
+        const configured = this.configuredCapabilities.get(accessory) || [];
+        for(const capability of Object.values(FanCapability)) {
+            const supported = capabilities.includes(capability);
+            if(supported && !configured.includes(capability)) {
+                this.configureCapability(accessory, service, capability);
+            } else if(!supported) {
+                this.takeDownCapability(accessory, service, capability);
+            }
+        }
+        this.configuredCapabilities.set(accessory, [...capabilities]);
+        if(!this.isAirPurifier()) {
+            return;
+        }
+
+        const targetStates = [this.api.hap.Characteristic.TargetAirPurifierState.MANUAL];
+        if(capabilities.includes(FanCapability.MODE) && this.getModeValue(VentilationMode.AUTO) !== undefined) {
+            targetStates.push(this.api.hap.Characteristic.TargetAirPurifierState.AUTO);
+        }
+        service.getCharacteristic(this.api.hap.Characteristic.TargetAirPurifierState)
+            .setProps({
+                validValues: targetStates
+            });
+    }
+
+    private configureCapability(accessory: PlatformAccessory, service: Service, capability: FanCapability) {
+        switch(capability) {
+            case FanCapability.SPEED:
+                this.configureRotationSpeed(accessory, service);
+                break;
+            case FanCapability.MODE:
+                // NOTE: switches of the modes whose values have been removed from the config are left behind
+                for(const modeSwitch of MODE_SWITCHES.filter((modeSwitch) => !this.getModeSwitches().includes(modeSwitch))) {
+                    this.removeSwitchService(accessory, service, FanAccessories.getModeServiceSubtype(modeSwitch.mode));
+                }
+                for(const modeSwitch of this.getModeSwitches()) {
+                    const modeService = this.getSwitchService(accessory, service, FanAccessories.getModeServiceSubtype(modeSwitch.mode), modeSwitch.name);
+                    modeService.getCharacteristic(this.api.hap.Characteristic.On)
+                        .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                            const ctx = accessory.context as FanAccessoryInterface;
+                            if((ctx.mode === modeSwitch.mode) === !!value) {
+                                callback(undefined);
+                                return;
+                            }
+                            const succeeded = await this.invokeFan(accessory, value ? {
+                                arg1: "on",
+                                arg3: this.getModeValue(modeSwitch.mode)
+                            } : {
+                                arg3: MANUAL_MODE_VALUE
+                            });
+                            callback(succeeded ? undefined : this.createCommunicationFailure());
+                        })
+                        .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                            if(!this.checkAccessoryAvailability(accessory, callback)) {
+                                return;
+                            }
+                            callback(undefined, (accessory.context as FanAccessoryInterface).mode === modeSwitch.mode);
                         });
-                        if(response === undefined) {
-                            callback(new Error('TIMED OUT'));
+                }
+                break;
+            case FanCapability.TIMER: {
+                const timerService = this.getSwitchService(accessory, service, FanAccessories.TIMER_SERVICE_SUBTYPE, FanAccessories.TIMER_SERVICE_NAME);
+                timerService.getCharacteristic(this.api.hap.Characteristic.On)
+                    .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                        const ctx = accessory.context as FanAccessoryInterface;
+                        if(!!ctx.timer === !!value) {
+                            callback(undefined);
                             return;
                         }
-                    } else if(newRotationSpeed === FanRotationSpeed.OFF) {
-                        callback(undefined);
-                        return;
-                    }
-                    // set the fan rotation speed
-                    const response = await this.client?.sendDeferredRequest({
-                        type: 'invoke',
-                        item: [{
-                            device: 'fan',
-                            uid: ctx.deviceID,
+                        const succeeded = await this.invokeFan(accessory, value ? {
                             arg1: "on",
-                            arg2: newRotationSpeed,
-                            arg3: ""
-                        }]
-                    }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                        return this.matchesAccessoryDeviceID(accessory, body);
+                            arg4: this.getOffTimerValue()
+                        } : {
+                            arg4: ""
+                        });
+                        callback(succeeded ? undefined : this.createCommunicationFailure());
+                    })
+                    .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                        if(!this.checkAccessoryAvailability(accessory, callback)) {
+                            return;
+                        }
+                        callback(undefined, !!(accessory.context as FanAccessoryInterface).timer);
+                    });
+                break;
+            }
+        }
+    }
+
+    private takeDownCapability(accessory: PlatformAccessory, service: Service, capability: FanCapability) {
+        const subtypes: string[] = [];
+        switch(capability) {
+            case FanCapability.SPEED:
+                if(service.testCharacteristic(this.api.hap.Characteristic.RotationSpeed)) {
+                    service.removeCharacteristic(service.getCharacteristic(this.api.hap.Characteristic.RotationSpeed));
+                }
+                break;
+            case FanCapability.MODE:
+                subtypes.push(...MODE_SWITCHES.map((modeSwitch) => FanAccessories.getModeServiceSubtype(modeSwitch.mode)));
+                break;
+            case FanCapability.TIMER:
+                subtypes.push(FanAccessories.TIMER_SERVICE_SUBTYPE);
+                break;
+        }
+        for(const subtype of subtypes) {
+            this.removeSwitchService(accessory, service, subtype);
+        }
+    }
+
+    private removeSwitchService(accessory: PlatformAccessory, service: Service, subtype: string) {
+        const switchService = accessory.getServiceById(this.api.hap.Service.Switch, subtype);
+        if(switchService) {
+            service.removeLinkedService(switchService);
+            accessory.removeService(switchService);
+        }
+    }
+
+    private getSwitchService(accessory: PlatformAccessory, service: Service, subtype: string, name: string): Service {
+        const switchService = accessory.getServiceById(this.api.hap.Service.Switch, subtype)
+            || accessory.addService(this.api.hap.Service.Switch, `${accessory.context.displayName} ${name}`, subtype);
+        service.addLinkedService(switchService);
+        return switchService;
+    }
+
+    static getModeServiceSubtype(mode: VentilationMode): string {
+        return `fan-${mode}`;
+    }
+
+    private configureRotationSpeed(accessory: PlatformAccessory, service: Service) {
+        service.getCharacteristic(this.api.hap.Characteristic.RotationSpeed)
+            .setProps({
+                format: Formats.FLOAT,
+                minValue: 0,
+                maxValue: 100, // Up to level 3
+                minStep: FAN_ROTATION_SPEED_UNIT
+            })
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const ctx = accessory.context as FanAccessoryInterface;
+                const speedIndex = Math.max(0, Math.min(3, parseInt(((value as number) / FAN_ROTATION_SPEED_UNIT).toFixed(0))));
+                const oldRotationSpeed = ctx.rotationSpeed;
+                const newRotationSpeed = `0${speedIndex}` as FanRotationSpeed;
+                if(oldRotationSpeed === newRotationSpeed) {
+                    callback(undefined);
+                    return;
+                }
+                if(!ctx.active) {
+                    // turn on the fan
+                    const response = await this.client?.sendInvokeRequest({
+                        device: 'fan',
+                        uid: ctx.deviceID,
+                        arg1: "on"
                     }).catch(_ => {
                         return undefined;
                     });
                     if(response === undefined) {
-                        callback(new Error('TIMED OUT'));
+                        callback(this.createCommunicationFailure());
                         return;
                     }
-                    this.refreshFanState(response['item'] || []);
+                } else if(newRotationSpeed === FanRotationSpeed.OFF) {
                     callback(undefined);
-                })
-                .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
-                    if(!this.checkAccessoryAvailability(accessory, callback)) {
-                        return;
-                    }
-                    const ctx = accessory.context as FanAccessoryInterface;
-                    callback(undefined, this.getRotationSpeedPercentage(ctx));
+                    return;
+                }
+                // set the fan rotation speed
+                const succeeded = await this.invokeFan(accessory, {
+                    arg1: "on",
+                    arg2: newRotationSpeed,
+                    arg3: ""
                 });
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                const ctx = accessory.context as FanAccessoryInterface;
+                callback(undefined, this.getRotationSpeedPercentage(ctx));
+            });
+    }
+
+    private async invokeActive(accessory: PlatformAccessory, isActive: boolean): Promise<boolean> {
+        // Old state is same with new state
+        if(accessory.context.active === isActive) {
+            return true;
+        }
+        return await this.invokeFan(accessory, {
+            arg1: isActive ? "on" : "off"
+        });
+    }
+
+    private async invokeFan(accessory: PlatformAccessory, args: Partial<DeviceItem>): Promise<boolean> {
+        const response = await this.client?.sendInvokeRequest({
+            device: 'fan',
+            uid: accessory.context.deviceID,
+            ...args
+        }).catch(_ => {
+            return undefined;
+        });
+        if(response === undefined) {
+            return false;
         }
+        this.refreshFanState(response['item'] || [], this.isAirPurifier());
+        return true;
     }
 
-    refreshFanState(items: any[], force: boolean = false) {
+    refreshFanState(items: DeviceItem[], force: boolean = false) {
         for(let i = 0; i < items.length; i++) {
             const item = items[i];
             const deviceType = item['device'];
@@ -169,11 +406,19 @@ export class FanAccessories extends Accessories<FanAccessoryInterface> {
                 } else {
                     ctx.rotationSpeed = item['arg2'] as FanRotationSpeed;
                 }
+                if(item['arg3'] !== undefined) {
+                    ctx.mode = this.findVentilationMode(item['arg3']);
+                }
+                if(item['arg4'] !== undefined) {
+                    ctx.timer = this.getOffTimerValue() !== undefined && item['arg4'] === this.getOffTimerValue();
+                }
                 ctx.init = true;
-                if(force) {
+                if(force && this.isAirPurifier()) {
+                    this.updateAirPurifierCharacteristics(accessory);
+                } else if(force) {
                     this.findService(accessory, this.api.hap.Service.Fan, (service) => {
                         service.setCharacteristic(this.api.hap.Characteristic.On, ctx.active ? 1 : 0);
-                        if(this.client?.doesComplexMatch(FAN_SPEED_SUPPORTED_COMPLEXES)) {
+                        if((this.configuredCapabilities.get(accessory) || []).includes(FanCapability.SPEED)) {
                             service.setCharacteristic(this.api.hap.Characteristic.RotationSpeed, this.getRotationSpeedPercentage(ctx));
                         }
                     });
@@ -182,31 +427,120 @@ export class FanAccessories extends Accessories<FanAccessoryInterface> {
         }
     }
 
+    private updateAirPurifierCharacteristics(accessory: PlatformAccessory) {
+        const ctx = accessory.context as FanAccessoryInterface;
+        const capabilities = this.configuredCapabilities.get(accessory) || [];
+        this.findService(accessory, this.api.hap.Service.AirPurifier, (service) => {
+            service.updateCharacteristic(this.api.hap.Characteristic.Active, ctx.active ? this.api.hap.Characteristic.Active.ACTIVE : this.api.hap.Characteristic.Active.INACTIVE);
+            service.updateCharacteristic(this.api.hap.Characteristic.CurrentAirPurifierState, this.getCurrentAirPurifierState(accessory));
+            service.updateCharacteristic(this.api.hap.Characteristic.TargetAirPurifierState, this.getTargetAirPurifierState(accessory));
+            if(capabilities.includes(FanCapability.SPEED)) {
+                service.updateCharacteristic(this.api.hap.Characteristic.RotationSpeed, this.getRotationSpeedPercentage(ctx));
+            }
+        });
+        if(capabilities.includes(FanCapability.MODE)) {
+            for(const modeSwitch of this.getModeSwitches()) {
+                accessory.getServiceById(this.api.hap.Service.Switch, FanAccessories.getModeServiceSubtype(modeSwitch.mode))
+                    ?.updateCharacteristic(this.api.hap.Characteristic.On, ctx.mode === modeSwitch.mode);
+            }
+        }
+        if(capabilities.includes(FanCapability.TIMER)) {
+            accessory.getServiceById(this.api.hap.Service.Switch, FanAccessories.TIMER_SERVICE_SUBTYPE)
+                ?.updateCharacteristic(this.api.hap.Characteristic.On, !!ctx.timer);
+        }
+    }
+
+    private getFanCapabilities(accessory: PlatformAccessory): FanCapability[] {
+        const discovered = this.getCapabilities(accessory);
+        const capabilities: FanCapability[] = [];
+        if(discovered.speed) {
+            capabilities.push(FanCapability.SPEED);
+        }
+        const ctx = accessory.context as FanAccessoryInterface;
+        if(this.isAirPurifier() && ctx.modeReported && Object.values(VentilationMode).some((mode) => this.getModeValue(mode) !== undefined)) {
+            capabilities.push(FanCapability.MODE);
+        }
+        if(this.isAirPurifier() && ctx.timerReported && this.getOffTimerValue() !== undefined) {
+            capabilities.push(FanCapability.TIMER);
+        }
+        return capabilities;
+    }
+
+    /**
+     * The modes and the off-timer are supported once the ventilator has reported any of the configured values,
+     * since the presence of arg3 and arg4 doesn't tell whether they are meaningful
+     *
+     * @return accessories which have reported the configured values for the first time
+     */
+    private discoverReportedValues(items: DeviceItem[]): PlatformAccessory[] {
+        const changed: PlatformAccessory[] = [];
+        for(const item of items) {
+            if(item['device'] !== this.getDeviceType()) {
+                continue;
+            }
+            const accessory = this.findAccessoryWithDeviceID(item['uid']);
+            if(!accessory) {
+                continue;
+            }
+            const ctx = accessory.context as FanAccessoryInterface;
+            let reported = false;
+            if(!ctx.modeReported && item['arg3'] && this.findVentilationMode(item['arg3']) !== undefined) {
+                ctx.modeReported = true;
+                reported = true;
+            }
+            if(!ctx.timerReported && item['arg4'] && item['arg4'] === this.getOffTimerValue()) {
+                ctx.timerReported = true;
+                reported = true;
+            }
+            if(reported) {
+                changed.push(accessory);
+            }
+        }
+        return changed;
+    }
+
     registerListeners() {
         super.registerListeners();
-        this.client?.registerResponseListener(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, (body) => {
-            if(!this.client?.isDeviceSupported(FAN_MENU_NAME)) {
-                return;
+        this.registerDeviceStateListener((items, source) => {
+            if(source === DeviceStateSource.QUERY) {
+                if(!this.client?.isDeviceSupported(FAN_MENU_NAME)) {
+                    return;
+                }
+                this.registerLazyAccessories(items, (deviceID) => {
+                    return {
+                        deviceID: deviceID,
+                        displayName: '환기',
+                        init: false,
+                        active: false,
+                        rotationSpeed: FanRotationSpeed.OFF
+                    };
+                });
             }
-            this.registerLazyAccessories(body, (deviceID) => {
-                return {
-                    deviceID: deviceID,
-                    displayName: '환기',
-                    init: false,
-                    active: false,
-                    rotationSpeed: FanRotationSpeed.OFF
-                };
-            });
-            this.refreshFanState(body['item'] || [], true);
-        });
-        this.client?.registerResponseListener(Types.DEVICE, DeviceSubTypes.INVOKE_RESPONSE, (body) => {
-            this.refreshFanState(body['item'] || [], true);
+            const changed = new Set([...this.discoverCapabilities(items), ...this.discoverReportedValues(items)]);
+            for(const accessory of changed) {
+                this.configureCapabilities(accessory);
+            }
+            this.refreshFanState(items, true);
         });
     }
 
+    getCurrentAirPurifierState(accessory: PlatformAccessory): CharacteristicValue {
+        if(accessory.context.active) {
+            return this.api.hap.Characteristic.CurrentAirPurifierState.PURIFYING_AIR;
+        }
+        return this.api.hap.Characteristic.CurrentAirPurifierState.INACTIVE;
+    }
+
+    getTargetAirPurifierState(accessory: PlatformAccessory): CharacteristicValue {
+        if((accessory.context as FanAccessoryInterface).mode === VentilationMode.AUTO) {
+            return this.api.hap.Characteristic.TargetAirPurifierState.AUTO;
+        }
+        return this.api.hap.Characteristic.TargetAirPurifierState.MANUAL;
+    }
+
     getRotationSpeedPercentage(ctx: FanAccessoryInterface): number {
         const speedIndex = parseInt(ctx.rotationSpeed);
         return speedIndex * FAN_ROTATION_SPEED_UNIT;
     }
 
-}
\ No newline at end of file
+}
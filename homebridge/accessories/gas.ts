@@ -10,7 +10,9 @@ import {
     Service
 } from "homebridge";
 import {DeviceSubTypes, Types} from "../../core/fields";
+import {DeviceItem} from "../../core/interfaces/messages";
 import {DaelimConfig} from "../../core/interfaces/daelim-config";
+import {DeviceStateSource} from "../../core/device-state";
 
 interface GasAccessoryInterface extends AccessoryInterface {
 
@@ -28,16 +30,11 @@ export class GasAccessories extends Accessories<GasAccessoryInterface> {
     async identify(accessory: PlatformAccessory): Promise<void> {
         await super.identify(accessory);
 
-        if(!!accessory.context.on) {
-            const response = await this.client?.sendDeferredRequest({
-                type: 'invoke',
-                item: [{
-                    device: 'gas',
-                    uid: accessory.context.deviceID,
-                    arg1: "off"
-                }]
-            }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                return this.matchesAccessoryDeviceID(accessory, body);
+        if(accessory.context.on) {
+            const response = await this.client?.sendInvokeRequest({
+                device: 'gas',
+                uid: accessory.context.deviceID,
+                arg1: "off"
             }).catch(_ => {
                 return undefined;
             });
@@ -88,20 +85,15 @@ export class GasAccessories extends Accessories<GasAccessoryInterface> {
                     callback(undefined);
                     return;
                 }
-                const response = await this.client?.sendDeferredRequest({
-                    type: 'invoke',
-                    item: [{
-                        device: 'gas',
-                        uid: ctx.deviceID,
-                        arg1: 'off'
-                    }]
-                }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                    return this.matchesAccessoryDeviceID(accessory, body);
+                const response = await this.client?.sendInvokeRequest({
+                    device: 'gas',
+                    uid: ctx.deviceID,
+                    arg1: 'off'
                 }).catch(_ => {
                     return undefined;
                 });
                 if(response === undefined) {
-                    callback(new Error('TIMED OUT'));
+                    callback(this.createCommunicationFailure());
                     return;
                 }
                 this.refreshGasValveState(response['item'] || []);
@@ -115,7 +107,7 @@ export class GasAccessories extends Accessories<GasAccessoryInterface> {
             });
     }
 
-    refreshGasValveState(items: any[], force: boolean = false) {
+    refreshGasValveState(items: DeviceItem[], force: boolean = false) {
         for(let i = 0; i < items.length; i++) {
             const item = items[i];
             const deviceType = item['device'];
@@ -139,19 +131,18 @@ export class GasAccessories extends Accessories<GasAccessoryInterface> {
 
     registerListeners() {
         super.registerListeners();
-        this.client?.registerResponseListener(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, (body) => {
-            this.registerLazyAccessories(body, (deviceID, displayName) => {
-                return {
-                    deviceID: deviceID,
-                    displayName: displayName,
-                    init: false,
-                    on: true // active as a default since this is off-only valve
-                }
-            })
-            this.refreshGasValveState(body['item'] || [], true);
-        });
-        this.client?.registerResponseListener(Types.DEVICE, DeviceSubTypes.INVOKE_RESPONSE, (body) => {
-            this.refreshGasValveState(body['item'] || [], true);
+        this.registerDeviceStateListener((items, source) => {
+            if(source === DeviceStateSource.QUERY) {
+                this.registerLazyAccessories(items, (deviceID, displayName) => {
+                    return {
+                        deviceID: deviceID,
+                        displayName: displayName,
+                        init: false,
+                        on: true // active as a default since this is off-only valve
+                    }
+                });
+            }
+            this.refreshGasValveState(items, true);
         });
     }
 
@@ -9,8 +9,9 @@ import {
     PlatformAccessory,
     Service
 } from "homebridge";
-import {DeviceSubTypes, Types} from "../../core/fields";
+import {DeviceItem} from "../../core/interfaces/messages";
 import {DaelimConfig} from "../../core/interfaces/daelim-config";
+import {DeviceStateSource} from "../../core/device-state";
 import {WithUUID} from "hap-nodejs";
 
 export interface HeaterCoolerAccessoryInterface extends AccessoryInterface {
@@ -23,6 +24,9 @@ export interface HeaterCoolerAccessoryInterface extends AccessoryInterface {
 
 export abstract class HeaterCoolerAccessories extends Accessories<HeaterCoolerAccessoryInterface> {
 
+    public static TEMPERATURE_SENSOR_SUBTYPE = "room-temperature";
+    public static TEMPERATURE_SENSOR_NAME = "온도";
+
     protected constructor(log: Logging,
                 api: API,
                 config: DaelimConfig,
@@ -40,24 +44,19 @@ export abstract class HeaterCoolerAccessories extends Accessories<HeaterCoolerAc
             .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
                 // Old state is same with new state
                 const isActive = value === this.api.hap.Characteristic.Active.ACTIVE;
-                if(accessory.context.active === isActive) {
+                if(this.isServiceActive(accessory) === isActive) {
                     callback(undefined);
                     return;
                 }
-                const response = await this.client?.sendDeferredRequest({
-                    type: 'invoke',
-                    item: [{
-                        device: this.getDeviceType(),
-                        uid: accessory.context.deviceID,
-                        arg1: isActive ? "on" : "off"
-                    }]
-                }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                    return this.matchesAccessoryDeviceID(accessory, body);
+                const response = await this.client?.sendInvokeRequest({
+                    device: this.getDeviceType(),
+                    uid: accessory.context.deviceID,
+                    ...this.createActiveArguments(accessory, isActive)
                 }).catch(_ => {
                     return undefined;
                 });
                 if(response === undefined) {
-                    callback(new Error('TIMED OUT'));
+                    callback(this.createCommunicationFailure());
                     return;
                 }
                 this.refreshHeaterCoolerState(response['item'] || []);
@@ -67,7 +66,7 @@ export abstract class HeaterCoolerAccessories extends Accessories<HeaterCoolerAc
                 if(!this.checkAccessoryAvailability(accessory, callback)) {
                     return;
                 }
-                callback(undefined, accessory.context.active ? this.api.hap.Characteristic.Active.ACTIVE : this.api.hap.Characteristic.Active.INACTIVE);
+                callback(undefined, this.isServiceActive(accessory) ? this.api.hap.Characteristic.Active.ACTIVE : this.api.hap.Characteristic.Active.INACTIVE);
             });
 
         service.getCharacteristic(this.api.hap.Characteristic.CurrentHeaterCoolerState)
@@ -82,19 +81,19 @@ export abstract class HeaterCoolerAccessories extends Accessories<HeaterCoolerAc
             });
 
         service.getCharacteristic(this.api.hap.Characteristic.TargetHeaterCoolerState)
-            .setValue(this.getTargetHeaterCoolerState())
+            .setValue(this.getTargetHeaterCoolerState(accessory))
             .setProps({
                 validValues: this.getAvailableTargetHeaterCoolerStates(),
             })
             .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
-                // NOTE: No need to update heater state
-                callback(undefined);
+                const succeeded = await this.invokeTargetHeaterCoolerState(accessory, value);
+                callback(succeeded ? undefined : this.createCommunicationFailure());
             })
             .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
                 if(!this.checkAccessoryAvailability(accessory, callback)) {
                     return;
                 }
-                callback(undefined, this.getTargetHeaterCoolerState());
+                callback(undefined, this.getTargetHeaterCoolerState(accessory));
             });
 
         service.getCharacteristic(this.getThresholdTemperatureCharacteristic())
@@ -110,21 +109,16 @@ export abstract class HeaterCoolerAccessories extends Accessories<HeaterCoolerAc
                     callback(undefined);
                     return;
                 }
-                const response = await this.client?.sendDeferredRequest({
-                    type: 'invoke',
-                    item: [{
-                        device: this.getDeviceType(),
-                        uid: accessory.context.deviceID,
-                        arg1: 'on',
-                        arg2: value.toString()
-                    }]
-                }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, (body) => {
-                    return this.matchesAccessoryDeviceID(accessory, body);
+                const response = await this.client?.sendInvokeRequest({
+                    device: this.getDeviceType(),
+                    uid: accessory.context.deviceID,
+                    arg1: 'on',
+                    arg2: value.toString()
                 }).catch(_ => {
                     return undefined;
                 });
                 if(response === undefined) {
-                    callback(new Error('TIMED OUT'));
+                    callback(this.createCommunicationFailure());
                     return;
                 }
                 this.refreshHeaterCoolerState(response['item'] || []);
@@ -145,9 +139,52 @@ export abstract class HeaterCoolerAccessories extends Accessories<HeaterCoolerAc
                 }
                 callback(undefined, this.getCurrentTemperature(accessory));
             });
+
+        this.configureTemperatureSensor(accessory, service);
+    }
+
+    /**
+     * The room temperature is exposed by a linked TemperatureSensor service if enabled,
+     * so that it is available for automations even while the device is turned off.
+     */
+    private configureTemperatureSensor(accessory: PlatformAccessory, service: Service) {
+        const subtype = HeaterCoolerAccessories.TEMPERATURE_SENSOR_SUBTYPE;
+        const sensorService = accessory.getServiceById(this.api.hap.Service.TemperatureSensor, subtype);
+        if(!this.config.heaterCooler?.temperatureSensor) {
+            if(sensorService) {
+                service.removeLinkedService(sensorService);
+                accessory.removeService(sensorService);
+            }
+            return;
+        }
+        const temperatureSensor = sensorService
+            || accessory.addService(this.api.hap.Service.TemperatureSensor, `${accessory.context.displayName} ${HeaterCoolerAccessories.TEMPERATURE_SENSOR_NAME}`, subtype);
+        service.addLinkedService(temperatureSensor);
+        const characteristic = temperatureSensor.getCharacteristic(this.api.hap.Characteristic.CurrentTemperature);
+        characteristic.on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+            this.client?.checkKeepAlive();
+            if(!accessory.context.init) {
+                // NOTE: the last-known reading is restored from the accessory cache of Homebridge
+                callback(undefined, characteristic.value);
+                return;
+            }
+            callback(undefined, this.getCurrentTemperature(accessory));
+        });
     }
 
-    refreshHeaterCoolerState(items: any[], force: boolean = false) {
+    private publishRoomTemperature(accessory: PlatformAccessory) {
+        const sensorService = accessory.getServiceById(this.api.hap.Service.TemperatureSensor, HeaterCoolerAccessories.TEMPERATURE_SENSOR_SUBTYPE);
+        if(!sensorService) {
+            return;
+        }
+        const temperature = this.getCurrentTemperature(accessory);
+        if(isNaN(temperature as number) || sensorService.getCharacteristic(this.api.hap.Characteristic.CurrentTemperature).value === temperature) {
+            return;
+        }
+        sensorService.updateCharacteristic(this.api.hap.Characteristic.CurrentTemperature, temperature);
+    }
+
+    refreshHeaterCoolerState(items: DeviceItem[], force: boolean = false) {
         for(let i = 0; i < items.length; i++) {
             const item = items[i];
             const deviceType = item['device'];
@@ -158,42 +195,87 @@ export abstract class HeaterCoolerAccessories extends Accessories<HeaterCoolerAc
             const accessory = this.findAccessoryWithDeviceID(deviceID);
             if(accessory) {
                 const active = item['arg1'] === 'on';
-                const desiredTemperature = parseInt(item['arg2']) || accessory.context.desiredTemperature;
-                const currentTemperature = parseInt(item['arg3']) || accessory.context.currentTemperature;
+                const desiredTemperature = parseInt(item['arg2'] || '') || accessory.context.desiredTemperature;
+                const currentTemperature = parseInt(item['arg3'] || '') || accessory.context.currentTemperature;
                 accessory.context.desiredTemperature = desiredTemperature;
                 accessory.context.currentTemperature = currentTemperature;
                 accessory.context.active = active && desiredTemperature >= this.minimumTemperature;
                 accessory.context.init = true;
+                this.refreshDeviceItem(accessory, item);
+                this.publishRoomTemperature(accessory);
                 if(force) {
-                    this.findService(accessory, this.api.hap.Service.HeaterCooler, (service) => {
-                        service.setCharacteristic(this.api.hap.Characteristic.CurrentTemperature, this.getCurrentTemperature(accessory));
-                        service.setCharacteristic(this.api.hap.Characteristic.Active, accessory.context.active ? this.api.hap.Characteristic.Active.ACTIVE : this.api.hap.Characteristic.Active.INACTIVE);
-                        service.setCharacteristic(this.api.hap.Characteristic.CurrentHeaterCoolerState, this.getCurrentHeaterCoolerState(accessory));
-                        service.setCharacteristic(this.api.hap.Characteristic.TargetHeaterCoolerState, this.getTargetHeaterCoolerState());
-                        service.setCharacteristic(this.getThresholdTemperatureCharacteristic(), this.getThresholdTemperature(accessory));
-                    });
+                    this.updateHeaterCoolerCharacteristics(accessory);
                 }
             }
         }
     }
 
+    /**
+     * Reads the additional arguments of the device item, called after the common arguments have been read
+     */
+    protected refreshDeviceItem(accessory: PlatformAccessory, item: DeviceItem) {
+    }
+
+    protected updateHeaterCoolerCharacteristics(accessory: PlatformAccessory) {
+        this.findService(accessory, this.api.hap.Service.HeaterCooler, (service) => {
+            service.setCharacteristic(this.api.hap.Characteristic.CurrentTemperature, this.getCurrentTemperature(accessory));
+            service.setCharacteristic(this.api.hap.Characteristic.Active, this.isServiceActive(accessory) ? this.api.hap.Characteristic.Active.ACTIVE : this.api.hap.Characteristic.Active.INACTIVE);
+            service.setCharacteristic(this.api.hap.Characteristic.CurrentHeaterCoolerState, this.getCurrentHeaterCoolerState(accessory));
+            service.setCharacteristic(this.api.hap.Characteristic.TargetHeaterCoolerState, this.getTargetHeaterCoolerState(accessory));
+            service.setCharacteristic(this.getThresholdTemperatureCharacteristic(), this.getThresholdTemperature(accessory));
+        });
+    }
+
+    /**
+     * Whether the HeaterCooler service is active, devices having other modes may be turned on while the service is not
+     */
+    protected isServiceActive(accessory: PlatformAccessory): boolean {
+        return !!accessory.context.active;
+    }
+
+    protected createActiveArguments(accessory: PlatformAccessory, isActive: boolean): Partial<DeviceItem> {
+        return {
+            arg1: isActive ? "on" : "off"
+        };
+    }
+
+    protected async invokeHeaterCooler(accessory: PlatformAccessory, args: Partial<DeviceItem>): Promise<boolean> {
+        const response = await this.client?.sendInvokeRequest({
+            device: this.getDeviceType(),
+            uid: accessory.context.deviceID,
+            ...args
+        }).catch(_ => {
+            return undefined;
+        });
+        if(response === undefined) {
+            return false;
+        }
+        this.refreshHeaterCoolerState(response['item'] || []);
+        return true;
+    }
+
+    protected async invokeTargetHeaterCoolerState(accessory: PlatformAccessory, value: CharacteristicValue): Promise<boolean> {
+        // NOTE: No need to update heater state
+        return true;
+    }
+
     registerListeners() {
         super.registerListeners();
-        this.client?.registerResponseListener(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, (body) => {
-            this.registerLazyAccessories(body, (deviceID, displayName) => {
-                return {
-                    deviceID: deviceID,
-                    displayName: displayName,
-                    init: false,
-                    active: false,
-                    desiredTemperature: 0,
-                    currentTemperature: 0
-                }
-            })
-            this.refreshHeaterCoolerState(body['item'] || [], false);
-        });
-        this.client?.registerResponseListener(Types.DEVICE, DeviceSubTypes.INVOKE_RESPONSE, (body) => {
-            this.refreshHeaterCoolerState(body['item'] || [], false);
+        this.registerDeviceStateListener((items, source) => {
+            if(source === DeviceStateSource.QUERY) {
+                this.registerLazyAccessories(items, (deviceID, displayName) => {
+                    return {
+                        deviceID: deviceID,
+                        displayName: displayName,
+                        init: false,
+                        active: false,
+                        desiredTemperature: 0,
+                        currentTemperature: 0
+                    }
+                });
+            }
+            // NOTE: changes made by other clients must be pushed to HomeKit since nobody asks for them
+            this.refreshHeaterCoolerState(items, source === DeviceStateSource.NOTIFICATION);
         });
     }
 
@@ -211,7 +293,7 @@ export abstract class HeaterCoolerAccessories extends Accessories<HeaterCoolerAc
 
     abstract getAvailableCurrentHeaterCoolerStates(): number[];
 
-    abstract getTargetHeaterCoolerState(): CharacteristicValue;
+    abstract getTargetHeaterCoolerState(accessory: PlatformAccessory): CharacteristicValue;
 
     abstract getAvailableTargetHeaterCoolerStates(): number[];
 
@@ -1,12 +1,203 @@
 import {HeaterCoolerAccessories, HeaterCoolerAccessoryInterface} from "./heater-cooler";
-import {API, Characteristic, CharacteristicValue, Logging, PlatformAccessory} from "homebridge";
+import {
+    API,
+    Characteristic,
+    CharacteristicEventTypes,
+    CharacteristicGetCallback,
+    CharacteristicSetCallback,
+    CharacteristicValue,
+    Logging,
+    PlatformAccessory,
+    Service
+} from "homebridge";
 import {DaelimConfig} from "../../core/interfaces/daelim-config";
+import {DeviceItem} from "../../core/interfaces/messages";
+import {DeviceStateSource} from "../../core/device-state";
 import {WithUUID} from "hap-nodejs";
 
+export enum HeatingMode {
+    AWAY = "away",
+    RESERVATION = "reservation",
+    TIMER = "timer"
+}
+
+interface HeatingModeInfo {
+    argument: string
+    name: string
+}
+
+const HEATING_MODES: { [mode in HeatingMode]: HeatingModeInfo } = {
+    [HeatingMode.AWAY]: { argument: "arg4", name: "외출" },
+    [HeatingMode.RESERVATION]: { argument: "arg5", name: "예약" },
+    [HeatingMode.TIMER]: { argument: "arg6", name: "타이머" }
+};
+
+interface HeaterAccessoryInterface extends HeaterCoolerAccessoryInterface {
+
+    modes?: HeatingMode[]
+    mode?: HeatingMode
+
+}
+
+/**
+ * Heating modes of wall pads, which are not supported by every complex:
+ * arg4 is the away mode, arg5 is the reservation mode and arg6 is the timer mode, each of them is either "on" or "off".
+ * arg7 is the interval of the reservation or the duration of the timer in hours.
+ * The modes are exclusive, and the supported modes are found from the arguments present in query responses,
+ * which are only accumulated since some responses may omit the arguments.
+ */
 export class HeaterAccessories extends HeaterCoolerAccessories {
 
+    public static MINIMUM_TEMPERATURE = 5;
+    public static MAXIMUM_TEMPERATURE = 40;
+    public static DEFAULT_RESERVATION_INTERVAL = 3;
+    public static DEFAULT_TIMER_DURATION = 2;
+
+    private readonly configuredModes = new WeakMap<PlatformAccessory, HeatingMode[]>();
+
     constructor(log: Logging, api: API, config: DaelimConfig) {
-        super(log, api, config, ["heating", "heater"], 5, 40);
+        super(log, api, config, ["heating", "heater"], HeaterAccessories.MINIMUM_TEMPERATURE, HeaterAccessories.MAXIMUM_TEMPERATURE);
+    }
+
+    configureAccessory(accessory: PlatformAccessory, services: Service[]) {
+        super.configureAccessory(accessory, services);
+        this.configureModes(accessory);
+    }
+
+    /**
+     * Shows the switches of the supported heating modes, and takes down the others
+     */
+    configureModes(accessory: PlatformAccessory) {
+        const service = accessory.getService(this.api.hap.Service.HeaterCooler);
+        if(!service) {
+            return;
+        }
+        const modes = (accessory.context as HeaterAccessoryInterface).modes || [];
+        const configured = this.configuredModes.get(accessory) || [];
+        for(const mode of Object.values(HeatingMode)) {
+            const modeService = this.findModeService(accessory, mode);
+            if(modes.includes(mode) && !configured.includes(mode)) {
+                this.configureModeService(accessory, service, mode);
+            } else if(!modes.includes(mode) && modeService) {
+                service.removeLinkedService(modeService);
+                accessory.removeService(modeService);
+            }
+        }
+        this.configuredModes.set(accessory, [...modes]);
+    }
+
+    private configureModeService(accessory: PlatformAccessory, service: Service, mode: HeatingMode) {
+        const modeService = this.findModeService(accessory, mode)
+            || accessory.addService(this.api.hap.Service.Switch, `${accessory.context.displayName} ${HEATING_MODES[mode].name}`, HeaterAccessories.getModeServiceSubtype(mode));
+        service.addLinkedService(modeService);
+        modeService.getCharacteristic(this.api.hap.Characteristic.On)
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const context = accessory.context as HeaterAccessoryInterface;
+                if((context.mode === mode) === !!value) {
+                    callback(undefined);
+                    return;
+                }
+                const succeeded = await this.invokeHeaterCooler(accessory, this.createModeArguments(accessory, value ? mode : undefined));
+                if(succeeded) {
+                    // The modes are exclusive
+                    this.updateHeaterCoolerCharacteristics(accessory);
+                }
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, (accessory.context as HeaterAccessoryInterface).mode === mode);
+            });
+    }
+
+    private findModeService(accessory: PlatformAccessory, mode: HeatingMode): Service | undefined {
+        return accessory.getServiceById(this.api.hap.Service.Switch, HeaterAccessories.getModeServiceSubtype(mode));
+    }
+
+    static getModeServiceSubtype(mode: HeatingMode): string {
+        return `heating-${mode}`;
+    }
+
+    /**
+     * @param mode Heating mode to turn on, every supported mode is turned off if not specified
+     */
+    createModeArguments(accessory: PlatformAccessory, mode?: HeatingMode): Partial<DeviceItem> {
+        const args: Partial<DeviceItem> = {};
+        if(mode !== undefined) {
+            args.arg1 = "on";
+        }
+        for(const supportedMode of (accessory.context as HeaterAccessoryInterface).modes || []) {
+            args[HEATING_MODES[supportedMode].argument] = supportedMode === mode ? "on" : "off";
+        }
+        if(mode === HeatingMode.RESERVATION) {
+            args.arg7 = String(this.config.heaterCooler?.reservationInterval ?? HeaterAccessories.DEFAULT_RESERVATION_INTERVAL);
+        } else if(mode === HeatingMode.TIMER) {
+            args.arg7 = String(this.config.heaterCooler?.timerDuration ?? HeaterAccessories.DEFAULT_TIMER_DURATION);
+        }
+        return args;
+    }
+
+    private findSupportedModes(items: DeviceItem[]) {
+        for(const item of items) {
+            if(item['device'] !== this.getDeviceType()) {
+                continue;
+            }
+            const accessory = this.findAccessoryWithDeviceID(item['uid']);
+            if(!accessory) {
+                continue;
+            }
+            const context = accessory.context as HeaterAccessoryInterface;
+            // NOTE: the configured modes survive the context replaced while restoring the accessory
+            const known = [...(context.modes || []), ...(this.configuredModes.get(accessory) || [])];
+            const modes = Object.values(HeatingMode).filter((mode) => {
+                const value = item[HEATING_MODES[mode].argument];
+                return known.includes(mode) || value === "on" || value === "off";
+            });
+            if(JSON.stringify(context.modes || []) !== JSON.stringify(modes)) {
+                this.log.debug("Heating modes of %s: %s", accessory.displayName, modes.join(", ") || "none");
+            }
+            context.modes = modes;
+            this.configureModes(accessory);
+        }
+    }
+
+    registerListeners() {
+        super.registerListeners();
+        // NOTE: registered after the listener of the base class, which adds the accessories of the query
+        this.registerDeviceStateListener((items, source) => {
+            if(source === DeviceStateSource.QUERY) {
+                this.findSupportedModes(items);
+            }
+        });
+    }
+
+    protected refreshDeviceItem(accessory: PlatformAccessory, item: DeviceItem) {
+        const context = accessory.context as HeaterAccessoryInterface;
+        let mode: HeatingMode | undefined = undefined;
+        let found = false;
+        for(const candidate of Object.values(HeatingMode)) {
+            const value = item[HEATING_MODES[candidate].argument];
+            if(value === undefined) {
+                continue;
+            }
+            found = true;
+            if(value === "on") {
+                mode = candidate;
+            }
+        }
+        if(found) {
+            context.mode = mode;
+        }
+    }
+
+    protected updateHeaterCoolerCharacteristics(accessory: PlatformAccessory) {
+        super.updateHeaterCoolerCharacteristics(accessory);
+        const context = accessory.context as HeaterAccessoryInterface;
+        for(const mode of this.configuredModes.get(accessory) || []) {
+            this.findModeService(accessory, mode)?.updateCharacteristic(this.api.hap.Characteristic.On, context.mode === mode);
+        }
     }
 
     getAvailableCurrentHeaterCoolerStates(): number[] {
@@ -1,5 +1,6 @@
 import {Accessories, AccessoryInterface} from "./accessories";
-import {DeviceSubTypes, Types} from "../../core/fields";
+import {DevicePushTypes, DeviceSubTypes, PushTypes, Types} from "../../core/fields";
+import {DeviceItem} from "../../core/interfaces/messages";
 import {
     API,
     CharacteristicEventTypes,
@@ -11,11 +12,14 @@ import {
     Service
 } from "homebridge";
 import {DaelimConfig} from "../../core/interfaces/daelim-config";
+import {PushData} from "../../core/client";
+import {DeviceStateSource} from "../../core/device-state";
+import {CapabilityDiscovery} from "../../core/capabilities";
 
 interface LightbulbAccessoryInterface extends AccessoryInterface {
 
     brightness: number
-    brightnessAdjustable: boolean
+    brightnessAdjustable?: boolean // Legacy, replaced by the dimming capability
     on: boolean
     maxBrightness: number
     minBrightness: number
@@ -105,6 +109,8 @@ const BRIGHTNESS_ADJUSTABLE_SETTINGS: BrightnessAdjustableSettings[] = [
 
 export class LightbulbAccessories extends Accessories<LightbulbAccessoryInterface> {
 
+    private readonly configuredBrightness = new WeakSet<PlatformAccessory>();
+
     constructor(log: Logging, api: API, config: DaelimConfig) {
         super(log, api, config, ["light", "lightbulb"], [api.hap.Service.Lightbulb], ["dimming"]);
     }
@@ -116,12 +122,7 @@ export class LightbulbAccessories extends Accessories<LightbulbAccessoryInterfac
         const procedures = [ !alreadyOn, alreadyOn ];
         for(let i = 0; i < procedures.length; i++) {
             const procedure = procedures[i];
-            const response = await this.client?.sendDeferredRequest({
-                type: 'invoke',
-                item: [ this.createItemInterface(accessory, procedure) ]
-            }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                return this.matchesAccessoryDeviceID(accessory, body);
-            }).catch(_ => {
+            const response = await this.client?.sendInvokeRequest(this.createItemInterface(accessory, procedure)).catch(_ => {
                 return undefined;
             });
             if(response === undefined) {
@@ -142,16 +143,11 @@ export class LightbulbAccessories extends Accessories<LightbulbAccessoryInterfac
                     callback(undefined);
                     return;
                 }
-                const response = await this.client?.sendDeferredRequest({
-                    type: 'invoke',
-                    item: [ this.createItemInterface(accessory, !!value) ]
-                }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                    return this.matchesAccessoryDeviceID(accessory, body);
-                }).catch(_ => {
+                const response = await this.client?.sendInvokeRequest(this.createItemInterface(accessory, !!value)).catch(_ => {
                     return undefined;
                 });
                 if(response === undefined) {
-                    callback(new Error('TIMED OUT'));
+                    callback(this.createCommunicationFailure());
                     return;
                 }
                 this.refreshLightbulbState(response['item'] || []);
@@ -163,67 +159,92 @@ export class LightbulbAccessories extends Accessories<LightbulbAccessoryInterfac
                 }
                 callback(undefined, accessory.context.on);
             });
-        if(accessory.context.brightnessAdjustable) {
-            service.getCharacteristic(this.api.hap.Characteristic.Brightness)
-                .setProps({
-                    format: Formats.FLOAT,
-                    minValue: 0,
-                    maxValue: 100,
-                    minStep: accessory.context.minSteps
-                })
-                .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
-                    const context = accessory.context as LightbulbAccessoryInterface;
-                    const settings = BRIGHTNESS_ADJUSTABLE_SETTINGS[context.brightnessSettingIndex];
-                    const brightness = Math.round(settings.fromBrightness(value, settings));
-
-                    if(accessory.context.brightness === brightness) {
-                        callback(undefined);
-                        return;
-                    }
-                    accessory.context.brightness = brightness;
-
-                    const response = await this.client?.sendDeferredRequest({
-                        type: 'invoke',
-                        item: [ this.createItemInterface(accessory, brightness >= context.minBrightness) ]
-                    }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                        return this.matchesAccessoryDeviceID(accessory, body);
-                    }).catch(_ => {
-                        return undefined;
-                    });
-                    if(response === undefined) {
-                        callback(new Error('TIMED OUT'));
-                        return;
-                    }
-                    this.refreshLightbulbState(response['item'] || []);
+        const context = accessory.context as LightbulbAccessoryInterface;
+        if(context.deviceCapabilities === undefined && context.brightnessAdjustable !== undefined) {
+            // Migrate the accessories cached before the capabilities, so that the brightness isn't taken down until discovered
+            context.deviceCapabilities = CapabilityDiscovery.override(CapabilityDiscovery.empty(), {
+                dimming: context.brightnessAdjustable ? "supported" : "unsupported"
+            });
+        }
+        this.configureCapabilities(accessory);
+    }
+
+    /**
+     * Shows the brightness if the dimming is supported, and takes it down otherwise
+     */
+    configureCapabilities(accessory: PlatformAccessory) {
+        const service = accessory.getService(this.api.hap.Service.Lightbulb);
+        if(!service) {
+            return;
+        }
+        if(this.getCapabilities(accessory).dimming) {
+            if(!this.configuredBrightness.has(accessory)) {
+                this.configureBrightness(accessory, service);
+                this.configuredBrightness.add(accessory);
+            }
+        } else {
+            if(service.testCharacteristic(this.api.hap.Characteristic.Brightness)) {
+                service.removeCharacteristic(service.getCharacteristic(this.api.hap.Characteristic.Brightness));
+            }
+            this.configuredBrightness.delete(accessory);
+        }
+    }
+
+    private configureBrightness(accessory: PlatformAccessory, service: Service) {
+        service.getCharacteristic(this.api.hap.Characteristic.Brightness)
+            .setProps({
+                format: Formats.FLOAT,
+                minValue: 0,
+                maxValue: 100,
+                minStep: accessory.context.minSteps
+            })
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                const context = accessory.context as LightbulbAccessoryInterface;
+                const settings = BRIGHTNESS_ADJUSTABLE_SETTINGS[context.brightnessSettingIndex];
+                const brightness = Math.round(settings.fromBrightness(value, settings));
+
+                if(accessory.context.brightness === brightness) {
                     callback(undefined);
-                })
-                .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
-                    if(!this.checkAccessoryAvailability(accessory, callback)) {
-                        return;
-                    }
-                    const context = accessory.context as LightbulbAccessoryInterface;
-                    const settings = BRIGHTNESS_ADJUSTABLE_SETTINGS[context.brightnessSettingIndex];
-                    const brightness = settings.getBrightness(Math.min(context.maxBrightness, context.brightness), settings);
-                    callback(undefined, brightness);
+                    return;
+                }
+                accessory.context.brightness = brightness;
+
+                const response = await this.client?.sendInvokeRequest(this.createItemInterface(accessory, brightness >= context.minBrightness)).catch(_ => {
+                    return undefined;
                 });
-        }
+                if(response === undefined) {
+                    callback(this.createCommunicationFailure());
+                    return;
+                }
+                this.refreshLightbulbState(response['item'] || []);
+                callback(undefined);
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                const context = accessory.context as LightbulbAccessoryInterface;
+                const settings = BRIGHTNESS_ADJUSTABLE_SETTINGS[context.brightnessSettingIndex];
+                const brightness = settings.getBrightness(Math.min(context.maxBrightness, context.brightness), settings);
+                callback(undefined, brightness);
+            });
     }
 
-    createItemInterface(accessory: PlatformAccessory, isActive: boolean): any {
+    createItemInterface(accessory: PlatformAccessory, isActive: boolean): DeviceItem {
         const context = accessory.context as LightbulbAccessoryInterface;
-        let item: any = {
+        const item: DeviceItem = {
             device: "light",
             uid: context.deviceID,
             arg1: isActive ? "on" : "off"
         };
-        if(isActive && context.brightnessAdjustable) {
+        if(isActive && this.getCapabilities(accessory).dimming) {
             item["arg2"] = String(context.brightness);
             item["arg3"] = "y";
         }
         return item;
     }
 
-    refreshLightbulbState(items: any[], force: boolean = false) {
+    refreshLightbulbState(items: DeviceItem[], force: boolean = false) {
         for(let i = 0; i < items.length; i++) {
             const item = items[i];
             const deviceType = item['device'];
@@ -242,13 +263,13 @@ export class LightbulbAccessories extends Accessories<LightbulbAccessoryInterfac
                     });
                 }
 
-                if(ctx.brightnessAdjustable) {
-                    // Update new brightness rate when the accessory is on.
-                    let brightness = item['arg2'];
-                    if(check3LevelBrightnessLightbulb(ctx.deviceID) && brightness === undefined) {
-                        brightness = ctx.on ? MAX_BRIGHTNESS_FOR_3_LEVEL_LIGHTBULB : 0;
-                    }
-                    const index = this.findAdjustableBrightnessSettingIndex(ctx.deviceID, brightness.toString());
+                // Update new brightness rate when the accessory is on.
+                let brightness = item['arg2'];
+                if(check3LevelBrightnessLightbulb(ctx.deviceID) && brightness === undefined) {
+                    brightness = String(ctx.on ? MAX_BRIGHTNESS_FOR_3_LEVEL_LIGHTBULB : 0);
+                }
+                if(this.configuredBrightness.has(accessory) && brightness !== undefined) {
+                    const index = this.findAdjustableBrightnessSettingIndex(ctx.deviceID, brightness);
                     const settings = BRIGHTNESS_ADJUSTABLE_SETTINGS[index];
 
                     if(force) {
@@ -284,31 +305,82 @@ export class LightbulbAccessories extends Accessories<LightbulbAccessoryInterfac
 
     registerListeners() {
         super.registerListeners();
-        this.client?.registerResponseListener(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, (body) => {
-            this.registerLazyAccessories(body, (deviceID, displayName, info) => {
-                const brightnessAdjustable = info["dimming"] === "y";
-                return {
-                    deviceID: deviceID,
-                    displayName: displayName,
-                    init: false,
-                    brightness: 0,
-                    brightnessAdjustable: brightnessAdjustable,
-                    on: false,
-                    maxBrightness: 100,
-                    minBrightness: 0,
-                    minSteps: 10,
-                    brightnessExceedJumpTo: 100,
-                    brightnessSettingIndex: 0
-                };
-            })
-            this.refreshLightbulbState(body['item'] || [], true);
+        this.registerDeviceStateListener((items, source) => {
+            if(source === DeviceStateSource.QUERY) {
+                // NOTE: the dimming capability is discovered from the device info kept by the deviceInfoKeys
+                this.registerLazyAccessories(items, (deviceID, displayName) => {
+                    return {
+                        deviceID: deviceID,
+                        displayName: displayName,
+                        init: false,
+                        brightness: 0,
+                        on: false,
+                        maxBrightness: 100,
+                        minBrightness: 0,
+                        minSteps: 10,
+                        brightnessExceedJumpTo: 100,
+                        brightnessSettingIndex: 0
+                    };
+                });
+            }
+            for(const accessory of this.discoverCapabilities(items)) {
+                this.configureCapabilities(accessory);
+            }
+            this.refreshLightbulbState(items, true);
+        });
+
+        // Lights switched on the wall pad or physical switches
+        this.client?.registerPushEventListener(PushTypes.DEVICES, DevicePushTypes.LIGHT_CHANGES, (data) => {
+            const items = this.parseLightChanges(data);
+            if(items.length) {
+                this.client?.getDeviceStates().update(items, DeviceStateSource.PUSH);
+                return;
+            }
+            const accessory = this.findChangedAccessory(data);
+            this.log.debug("Light changes have been pushed, querying %s", accessory ? accessory.displayName : "all lights");
+            // NOTE: the response is consumed by the device state listener above
+            this.client?.sendUnreliableRequest({
+                type: 'query',
+                item: [{
+                    device: this.getDeviceType(),
+                    uid: accessory ? accessory.context.deviceID : 'all'
+                }]
+            }, Types.DEVICE, DeviceSubTypes.QUERY_REQUEST);
         });
+    }
 
-        this.client?.registerResponseListener(Types.DEVICE, DeviceSubTypes.INVOKE_RESPONSE, (body) => {
-            this.refreshLightbulbState(body['item'] || [], true);
+    /**
+     * Some complexes carry the changed device items in the reserved field as JSON
+     */
+    private parseLightChanges(data: PushData): DeviceItem[] {
+        return this.parseReservedItems(data).filter((item: any) => typeof item['arg1'] === 'string');
+    }
+
+    private parseReservedItems(data: PushData): any[] {
+        let json: any;
+        try {
+            json = JSON.parse(data.reserved);
+        } catch(e) {
+            return [];
+        }
+        const candidates = Array.isArray(json) ? json : (json && Array.isArray(json['item']) ? json['item'] : [json]);
+        return candidates.filter((item: any) => {
+            return item && item['device'] === this.getDeviceType() && typeof item['uid'] === 'string';
         });
     }
 
+    /**
+     * The changed light is identified only by the device ID of the payload, all lights are queried otherwise
+     */
+    private findChangedAccessory(data: PushData): PlatformAccessory | undefined {
+        const items = this.parseReservedItems(data);
+        if(items.length) {
+            return items.length === 1 ? this.findAccessoryWithDeviceID(items[0]['uid']) : undefined;
+        }
+        const reserved = (data.reserved || "").trim();
+        return reserved.length ? this.findAccessoryWithDeviceID(reserved) : undefined;
+    }
+
     findAdjustableBrightnessSettingIndex(deviceID: string, brightness: string): number {
         for(let i = 0; i < BRIGHTNESS_ADJUSTABLE_SETTINGS.length; i++) {
             const settings = BRIGHTNESS_ADJUSTABLE_SETTINGS[i];
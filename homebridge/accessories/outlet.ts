@@ -9,17 +9,44 @@ import {
     PlatformAccessory,
     Service
 } from "homebridge";
-import {DeviceSubTypes, Types} from "../../core/fields";
+import {DeviceItem} from "../../core/interfaces/messages";
 import {DaelimConfig} from "../../core/interfaces/daelim-config";
+import {DeviceStateSource} from "../../core/device-state";
+import {DeviceSubTypes, Errors, Types} from "../../core/fields";
+import {DeferredRequestError} from "../../core/errors";
+import {getEveCharacteristics} from "../characteristics";
+
+const METERING_VALUE_PATTERN = /^[0-9]+(\.[0-9]+)?$/;
 
 interface OutletAccessoryInterface extends AccessoryInterface {
 
     on: boolean
+    power: number
+    energy: number
+    metered: boolean
+    cutOff: boolean
 
 }
 
+/**
+ * Arguments of wall-socket query responses:
+ * arg1 is the power state, arg2 is the current power consumption in watts and arg3 is the total energy in kWh.
+ * arg4 is the mode of standby power auto cut-off and arg5 is its threshold in watts, both are written by wall-socket invokes.
+ * The arguments are trusted only from wall-socket query responses, the other responses of outlets carry the power state only.
+ */
 export class OutletAccessories extends Accessories<OutletAccessoryInterface> {
 
+    public static DEFAULT_IN_USE_THRESHOLD = 1;
+    public static DEFAULT_STANDBY_THRESHOLD = 1;
+    public static CUT_OFF_SERVICE_SUBTYPE = "standby-cut-off";
+    public static CUT_OFF_SERVICE_NAME = "대기전력 자동차단";
+    // Errors of wall-socket queries meaning the complex has no metering, the others are retried
+    public static METERING_UNSUPPORTED_ERRORS = [Errors.INVALID_PARAMETER, Errors.DENIED_DEVICE_TYPE];
+
+    // NOTE: undefined until the first wall-socket query, complexes without metering reject it
+    private meteringSupported?: boolean;
+    private readonly configuredCutOffs = new WeakSet<PlatformAccessory>();
+
     constructor(log: Logging, api: API, config: DaelimConfig) {
         super(log, api, config, ["wallsocket", "outlet"], [api.hap.Service.Outlet]);
     }
@@ -31,15 +58,10 @@ export class OutletAccessories extends Accessories<OutletAccessoryInterface> {
         const procedures = [ !alreadyOn, alreadyOn ];
         for(let i = 0; i < procedures.length; i++) {
             const procedure = procedures[i];
-            const response = await this.client?.sendDeferredRequest({
-                type: 'invoke',
-                item: [{
-                    device: 'wallsocket',
-                    uid: accessory.context.deviceID,
-                    arg1: procedure ? "on" : "off"
-                }]
-            }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                return this.matchesAccessoryDeviceID(accessory, body);
+            const response = await this.client?.sendInvokeRequest({
+                device: 'wallsocket',
+                uid: accessory.context.deviceID,
+                arg1: procedure ? "on" : "off"
             }).catch(_ => {
                 return undefined;
             });
@@ -61,20 +83,15 @@ export class OutletAccessories extends Accessories<OutletAccessoryInterface> {
                     callback(undefined);
                     return;
                 }
-                const response = await this.client?.sendDeferredRequest({
-                    type: 'invoke',
-                    item: [{
-                        device: 'wallsocket',
-                        uid: accessory.context.deviceID,
-                        arg1: value ? "on" : "off"
-                    }]
-                }, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE, body => {
-                    return this.matchesAccessoryDeviceID(accessory, body);
+                const response = await this.client?.sendInvokeRequest({
+                    device: 'wallsocket',
+                    uid: accessory.context.deviceID,
+                    arg1: value ? "on" : "off"
                 }).catch(_ => {
                     return undefined;
                 });
                 if(response === undefined) {
-                    callback(new Error('TIMED OUT'));
+                    callback(this.createCommunicationFailure());
                     return;
                 }
                 this.refreshOutletState(response['item'] || []);
@@ -86,9 +103,112 @@ export class OutletAccessories extends Accessories<OutletAccessoryInterface> {
                 }
                 callback(undefined, accessory.context.on);
             });
+
+        service.getCharacteristic(this.api.hap.Characteristic.OutletInUse)
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, this.isOutletInUse(accessory));
+            });
+
+        const eve = getEveCharacteristics(this.api);
+        service.addOptionalCharacteristic(eve.CurrentConsumption);
+        service.addOptionalCharacteristic(eve.TotalConsumption);
+        service.getCharacteristic(eve.CurrentConsumption)
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, accessory.context.power || 0);
+            });
+        service.getCharacteristic(eve.TotalConsumption)
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, accessory.context.energy || 0);
+            });
+
+        // NOTE: the switch is cached once metering has been supported, so that it doesn't flap until the first wall-socket query
+        if(!this.isStandbyCutOffEnabled()) {
+            this.takeDownCutOffService(accessory);
+        } else if(this.meteringSupported || accessory.getServiceById(this.api.hap.Service.Switch, OutletAccessories.CUT_OFF_SERVICE_SUBTYPE)) {
+            this.configureCutOffService(accessory);
+        }
+    }
+
+    isStandbyCutOffEnabled(): boolean {
+        return this.config.wallSocket?.standbyCutOff === true;
+    }
+
+    /**
+     * The switch of standby power auto cut-off is a secondary service linked to the outlet
+     */
+    private configureCutOffService(accessory: PlatformAccessory) {
+        const service = accessory.getService(this.api.hap.Service.Outlet);
+        if(!service || !this.isStandbyCutOffEnabled() || this.configuredCutOffs.has(accessory)) {
+            return;
+        }
+        const subtype = OutletAccessories.CUT_OFF_SERVICE_SUBTYPE;
+        const cutOffService = accessory.getServiceById(this.api.hap.Service.Switch, subtype)
+            || accessory.addService(this.api.hap.Service.Switch, `${accessory.context.displayName} ${OutletAccessories.CUT_OFF_SERVICE_NAME}`, subtype);
+        service.addLinkedService(cutOffService);
+        cutOffService.getCharacteristic(this.api.hap.Characteristic.On)
+            .on(CharacteristicEventTypes.SET, async (value: CharacteristicValue, callback: CharacteristicSetCallback) => {
+                // Old state is same with new state
+                if(accessory.context.cutOff === value) {
+                    callback(undefined);
+                    return;
+                }
+                const succeeded = await this.invokeStandbyCutOff(accessory, !!value);
+                callback(succeeded ? undefined : this.createCommunicationFailure());
+            })
+            .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
+                if(!this.checkAccessoryAvailability(accessory, callback)) {
+                    return;
+                }
+                callback(undefined, !!accessory.context.cutOff);
+            });
+        this.configuredCutOffs.add(accessory);
+    }
+
+    private takeDownCutOffService(accessory: PlatformAccessory) {
+        const cutOffService = accessory.getServiceById(this.api.hap.Service.Switch, OutletAccessories.CUT_OFF_SERVICE_SUBTYPE);
+        if(cutOffService) {
+            accessory.getService(this.api.hap.Service.Outlet)?.removeLinkedService(cutOffService);
+            accessory.removeService(cutOffService);
+        }
+        this.configuredCutOffs.delete(accessory);
+    }
+
+    getInUseThreshold(accessory: PlatformAccessory): number {
+        const deviceInfo = this.findDeviceInfoFromAccessory(accessory);
+        return deviceInfo?.wallSocket?.inUseThreshold
+            ?? this.config.wallSocket?.inUseThreshold
+            ?? OutletAccessories.DEFAULT_IN_USE_THRESHOLD;
     }
 
-    refreshOutletState(items: any[], force: boolean = false) {
+    getStandbyThreshold(accessory: PlatformAccessory): number {
+        const deviceInfo = this.findDeviceInfoFromAccessory(accessory);
+        return deviceInfo?.wallSocket?.standbyThreshold
+            ?? this.config.wallSocket?.standbyThreshold
+            ?? OutletAccessories.DEFAULT_STANDBY_THRESHOLD;
+    }
+
+    isOutletInUse(accessory: PlatformAccessory): boolean {
+        const context = accessory.context as OutletAccessoryInterface;
+        if(!context.on) {
+            return false;
+        }
+        if(!context.metered) {
+            // Outlets without metering are considered as in use while turned on
+            return true;
+        }
+        return context.power > this.getInUseThreshold(accessory);
+    }
+
+    refreshOutletState(items: DeviceItem[], force: boolean = false) {
         for(let i = 0; i < items.length; i++) {
             const item = items[i];
             const deviceType = item['device'];
@@ -98,12 +218,24 @@ export class OutletAccessories extends Accessories<OutletAccessoryInterface> {
             const deviceID = item['uid'];
             const accessory = this.findAccessoryWithDeviceID(deviceID);
             if(accessory) {
-                accessory.context.on = item['arg1'] === 'on';
-                accessory.context.init = true;
+                const context = accessory.context as OutletAccessoryInterface;
+                context.on = item['arg1'] === 'on';
+                context.init = true;
+                if(!context.on) {
+                    context.power = 0;
+                }
                 if(force) {
                     this.findService(accessory, this.api.hap.Service.Outlet, (service) => {
-                        service.setCharacteristic(this.api.hap.Characteristic.On, accessory.context.on);
+                        service.setCharacteristic(this.api.hap.Characteristic.On, context.on);
+                        service.updateCharacteristic(this.api.hap.Characteristic.OutletInUse, this.isOutletInUse(accessory));
+                        if(context.metered) {
+                            const eve = getEveCharacteristics(this.api);
+                            service.updateCharacteristic(eve.CurrentConsumption, context.power);
+                            service.updateCharacteristic(eve.TotalConsumption, context.energy || 0);
+                        }
                     });
+                    accessory.getServiceById(this.api.hap.Service.Switch, OutletAccessories.CUT_OFF_SERVICE_SUBTYPE)
+                        ?.updateCharacteristic(this.api.hap.Characteristic.On, !!context.cutOff);
                 }
             }
         }
@@ -111,22 +243,138 @@ export class OutletAccessories extends Accessories<OutletAccessoryInterface> {
 
     registerListeners() {
         super.registerListeners();
-        this.client?.registerResponseListener(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, (body) => {
-            this.registerLazyAccessories(body, (deviceID, displayName) => {
-                return {
-                    deviceID: deviceID,
-                    displayName: displayName,
-                    init: false,
-                    on: false
-                };
-            });
-            this.refreshOutletState(body['item'] || [], true);
+        this.registerDeviceStateListener((items, source) => {
+            if(source === DeviceStateSource.QUERY) {
+                this.registerLazyAccessories(items, (deviceID, displayName) => {
+                    return {
+                        deviceID: deviceID,
+                        displayName: displayName,
+                        init: false,
+                        on: false,
+                        power: 0,
+                        energy: 0,
+                        metered: false,
+                        cutOff: false
+                    };
+                });
+            }
+            this.refreshOutletState(items, true);
+            if(source === DeviceStateSource.QUERY && this.meteringSupported === undefined && this.accessories.length) {
+                this.queryWallSockets();
+            }
         });
+    }
 
-        this.client?.registerResponseListener(Types.DEVICE, DeviceSubTypes.INVOKE_RESPONSE, (body) => {
-            this.refreshOutletState(body['item'] || [], true);
-        });
+    protected async queryDeviceStates() {
+        await super.queryDeviceStates();
+        if(this.meteringSupported !== false) {
+            await this.queryWallSockets();
+        }
     }
 
+    /**
+     * Queries power consumptions of the outlets. The power states of the responses are consumed by the device state listener.
+     */
+    async queryWallSockets() {
+        try {
+            const response = await this.client?.sendDeferredRequest({
+                type: 'query',
+                item: [{
+                    device: this.getDeviceType(),
+                    uid: 'all'
+                }]
+            }, Types.DEVICE, DeviceSubTypes.WALL_SOCKET_QUERY_REQUEST, DeviceSubTypes.WALL_SOCKET_QUERY_RESPONSE, (body) => {
+                return (body['item'] || []).some((item) => item['device'] === this.getDeviceType());
+            });
+            if(response === undefined) {
+                return;
+            }
+            if(!this.refreshMeteringState(response['item'] || [])) {
+                if(this.meteringSupported === undefined) {
+                    this.log.info("Power metering of outlets is not supported by the complex: no power consumptions have been responded");
+                    this.meteringSupported = false;
+                    this.accessories.forEach((accessory) => this.takeDownCutOffService(accessory));
+                }
+                return;
+            }
+            if(this.meteringSupported !== true) {
+                this.meteringSupported = true;
+                this.accessories.forEach((accessory) => this.configureCutOffService(accessory));
+            }
+        } catch(e) {
+            if(e instanceof DeferredRequestError && OutletAccessories.METERING_UNSUPPORTED_ERRORS.includes(e.error)) {
+                this.log.info("Power metering of outlets is not supported by the complex: %s", e.message);
+                this.meteringSupported = false;
+                this.accessories.forEach((accessory) => this.takeDownCutOffService(accessory));
+            } else {
+                // NOTE: timeouts, disconnections and exhausted retries are transient, queried again later
+                this.log.debug("Failed to query power consumptions of outlets: %s", e);
+            }
+        }
+    }
+
+    /**
+     * @return true if any of the items carries valid power consumptions
+     */
+    private refreshMeteringState(items: DeviceItem[]): boolean {
+        let metered = false;
+        for(const item of items) {
+            if(item['device'] !== this.getDeviceType()) {
+                continue;
+            }
+            const power = item['arg2'] || '';
+            const energy = item['arg3'] || '';
+            if(!METERING_VALUE_PATTERN.test(power) || !METERING_VALUE_PATTERN.test(energy)) {
+                continue;
+            }
+            metered = true;
+            const accessory = this.findAccessoryWithDeviceID(item['uid']);
+            if(!accessory) {
+                continue;
+            }
+            const context = accessory.context as OutletAccessoryInterface;
+            // NOTE: the device state listener may not have consumed the power state of the response yet
+            const on = item['arg1'] !== undefined ? item['arg1'] === 'on' : context.on;
+            context.metered = true;
+            context.power = on ? parseFloat(power) : 0;
+            context.energy = parseFloat(energy);
+            if(item['arg4'] === 'on' || item['arg4'] === 'off') {
+                context.cutOff = item['arg4'] === 'on';
+            }
+            this.findService(accessory, this.api.hap.Service.Outlet, (service) => {
+                const eve = getEveCharacteristics(this.api);
+                service.updateCharacteristic(this.api.hap.Characteristic.OutletInUse, this.isOutletInUse(accessory));
+                service.updateCharacteristic(eve.CurrentConsumption, context.power);
+                service.updateCharacteristic(eve.TotalConsumption, context.energy);
+            });
+            accessory.getServiceById(this.api.hap.Service.Switch, OutletAccessories.CUT_OFF_SERVICE_SUBTYPE)
+                ?.updateCharacteristic(this.api.hap.Characteristic.On, !!context.cutOff);
+        }
+        return metered;
+    }
+
+    /**
+     * Writes the mode of standby power auto cut-off with the threshold configured for the outlet.
+     * The arguments have not been verified by captures, therefore the switch is exposed only when opted in.
+     */
+    async invokeStandbyCutOff(accessory: PlatformAccessory, enabled: boolean): Promise<boolean> {
+        try {
+            await this.client?.sendDeferredRequest({
+                type: 'invoke',
+                item: [{
+                    device: this.getDeviceType(),
+                    uid: accessory.context.deviceID,
+                    arg4: enabled ? "on" : "off",
+                    arg5: String(this.getStandbyThreshold(accessory))
+                }]
+            }, Types.DEVICE, DeviceSubTypes.WALL_SOCKET_INVOKE_REQUEST, DeviceSubTypes.WALL_SOCKET_INVOKE_RESPONSE, (body) => {
+                return this.matchesAccessoryDeviceID(accessory, body);
+            });
+            return true;
+        } catch(e) {
+            this.log.warn("Failed to change standby power auto cut-off of %s: %s", accessory.displayName, e);
+            return false;
+        }
+    }
 
 }
\ No newline at end of file
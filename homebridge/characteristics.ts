@@ -0,0 +1,63 @@
+import {API, Characteristic, Formats, Perms} from "homebridge";
+import {WithUUID} from "hap-nodejs";
+
+export type CustomCharacteristic = WithUUID<{ new(): Characteristic }>;
+
+export interface EveCharacteristics {
+    CurrentConsumption: CustomCharacteristic
+    TotalConsumption: CustomCharacteristic
+}
+
+let eveCharacteristics: EveCharacteristics | undefined;
+
+/**
+ * Custom characteristics of Eve app, which shows power consumption of outlets.
+ * They must be created from the HAP instance of Homebridge, therefore created lazily once.
+ */
+export function getEveCharacteristics(api: API): EveCharacteristics {
+    if(eveCharacteristics) {
+        return eveCharacteristics;
+    }
+
+    class CurrentConsumption extends api.hap.Characteristic {
+
+        static readonly UUID = "E863F10D-079E-48FF-8F27-9C2605A29F52";
+
+        constructor() {
+            super("Consumption", CurrentConsumption.UUID, {
+                format: Formats.FLOAT,
+                unit: "W",
+                minValue: 0,
+                maxValue: 100000,
+                minStep: 0.1,
+                perms: [Perms.PAIRED_READ, Perms.NOTIFY]
+            });
+            this.value = this.getDefaultValue();
+        }
+
+    }
+
+    class TotalConsumption extends api.hap.Characteristic {
+
+        static readonly UUID = "E863F10C-079E-48FF-8F27-9C2605A29F52";
+
+        constructor() {
+            super("Total Consumption", TotalConsumption.UUID, {
+                format: Formats.FLOAT,
+                unit: "kWh",
+                minValue: 0,
+                maxValue: 1000000000,
+                minStep: 0.001,
+                perms: [Perms.PAIRED_READ, Perms.NOTIFY]
+            });
+            this.value = this.getDefaultValue();
+        }
+
+    }
+
+    eveCharacteristics = {
+        CurrentConsumption: CurrentConsumption,
+        TotalConsumption: TotalConsumption
+    };
+    return eveCharacteristics;
+}
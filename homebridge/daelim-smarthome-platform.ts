@@ -7,13 +7,15 @@ import {Accessories, AccessoryInterface} from "./accessories/accessories";
 import {OutletAccessories} from "./accessories/outlet";
 import {HeaterAccessories} from "./accessories/heater";
 import {CoolerAccessories} from "./accessories/cooler";
+import {CombinedHeaterCoolerAccessories} from "./accessories/combined-heater-cooler";
 import {GasAccessories} from "./accessories/gas";
 import {FanAccessories} from "./accessories/fan";
 import {ElevatorAccessories} from "./accessories/elevator";
 import {DoorAccessories} from "./accessories/door";
 import {VehicleAccessories} from "./accessories/vehicle";
 import {CameraAccessories} from "./accessories/camera";
-import fcm, {Credentials} from "push-receiver";
+import {PushCredentialStore} from "../core/push-credentials";
+import {usesFcmTransport} from "../core/push-transport";
 
 export = (api: API) => {
     api.registerPlatform(Utils.PLATFORM_NAME, DaelimSmartHomePlatform);
@@ -38,6 +40,7 @@ class DaelimSmartHomePlatform implements DynamicPlatformPlugin {
             this.accessories.push(new OutletAccessories(this.log, this.api, this.config));
             this.accessories.push(new HeaterAccessories(this.log, this.api, this.config));
             this.accessories.push(new CoolerAccessories(this.log, this.api, this.config));
+            this.accessories.push(new CombinedHeaterCoolerAccessories(this.log, this.api, this.config));
             this.accessories.push(new GasAccessories(this.log, this.api, this.config));
             this.accessories.push(new FanAccessories(this.log, this.api, this.config));
             this.accessories.push(new ElevatorAccessories(this.log, this.api, this.config));
@@ -68,7 +71,16 @@ class DaelimSmartHomePlatform implements DynamicPlatformPlugin {
             password: config["password"],
             uuid: config["uuid"],
             version: Utils.currentSemanticVersion(),
-            devices: config["devices"] || []
+            storagePath: this.api.user.storagePath(),
+            devices: config["devices"] || [],
+            retry: config["retry"],
+            wallPad: config["wallPad"],
+            push: config["push"],
+            polling: config["polling"],
+            wallSocket: config["wallSocket"],
+            heaterCooler: config["heaterCooler"],
+            fan: config["fan"],
+            debug: config["debug"]
         };
     }
 
@@ -93,8 +105,12 @@ class DaelimSmartHomePlatform implements DynamicPlatformPlugin {
         }
 
         // firebase cloud messaging
-        const credentials = await fcm.register(Utils.FCM_SENDER_ID);
-        this.client = new Client(this.log, this.config, credentials as Credentials);
+        let pushCredentials: PushCredentialStore | undefined;
+        if(usesFcmTransport(this.config.push)) {
+            pushCredentials = new PushCredentialStore(this.log, this.config.storagePath);
+            await pushCredentials.prepare(Utils.FCM_SENDER_ID);
+        }
+        this.client = new Client(this.log, this.config, pushCredentials);
         await this.client.prepareService();
 
         this.client.registerListeners();
@@ -106,6 +122,16 @@ class DaelimSmartHomePlatform implements DynamicPlatformPlugin {
             accessories.registerAccessories();
         });
 
+        const capturePath = this.config.debug?.replayCapture;
+        if(capturePath) {
+            try {
+                const replayed = await this.client.replayCapture(capturePath);
+                this.log(`Replayed ${replayed} packets of the capture ${capturePath}`);
+            } catch(e) {
+                this.log.error(`Failed to replay the capture ${capturePath}: ${e}`);
+            }
+            return;
+        }
         this.client.startService();
     }
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+import * as fs from "fs";
+import {Complex} from "../core/interfaces/complex";
+import {MenuItem} from "../core/interfaces/menu";
+
+export type DeviceArguments = { [key: string]: string };
+
+export interface SimulatedAccount {
+    username: string
+    password: string
+    certified: boolean
+    wallPadPin: string
+}
+
+export interface SimulatedAddress {
+    dong: string
+    ho: string
+}
+
+export interface SimulatedDevice {
+    uid: string
+    uname: string
+    info?: { [key: string]: string }
+    state: DeviceArguments
+    // NOTE: arguments served only by the wall-socket subtypes, such as power consumptions of outlets
+    metering?: DeviceArguments
+}
+
+export interface SimulatorFixture {
+    complex: Complex
+    account: SimulatedAccount
+    address: SimulatedAddress
+    menus: MenuItem[]
+    pushPreferences: DeviceArguments
+    devices: { [deviceType: string]: SimulatedDevice[] }
+}
+
+export function loadFixture(path: string): SimulatorFixture {
+    return JSON.parse(fs.readFileSync(path, "utf-8")) as SimulatorFixture;
+}
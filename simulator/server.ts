@@ -0,0 +1,529 @@
+import net from "net";
+import * as path from "path";
+import {Client} from "../core/client";
+import {Chunk} from "../core/chunk";
+import {Packet} from "../core/packet";
+import {LoggerBase} from "../core/network";
+import {
+    DeviceSubTypes,
+    ElevatorCallSubTypes,
+    Errors,
+    LoginSubTypes,
+    SettingSubTypes,
+    SubTypes,
+    Types
+} from "../core/fields";
+import {Complex} from "../core/interfaces/complex";
+import {MenuItem} from "../core/interfaces/menu";
+import {loadFixture, SimulatedDevice, SimulatorFixture} from "./fixture";
+
+export const DEFAULT_FIXTURE_PATH = path.join(__dirname, "..", "..", "simulator", "fixtures", "apartment.json");
+
+class Logger implements LoggerBase {
+
+    debug(message: string, ...parameters: any[]): void {
+        console.debug(message, ...parameters);
+    }
+
+    error(message: string, ...parameters: any[]): void {
+        console.error(message, ...parameters);
+    }
+
+    info(message: string, ...parameters: any[]): void {
+        console.info(message, ...parameters);
+    }
+
+    warn(message: string, ...parameters: any[]): void {
+        console.warn(message, ...parameters);
+    }
+
+}
+
+class SimulatorSession {
+
+    private readBuffers = new ArrayBuffer(0);
+    private certificationPin = "";
+    private loginPin = "";
+
+    constructor(private readonly log: LoggerBase,
+                private readonly server: SimulatorServer,
+                private readonly socket: net.Socket) {
+        this.socket.on("data", (data) => {
+            this.appendBuffer(data);
+            while(this.handleRequest()) {
+                // Handles every complete request in the buffer
+            }
+        });
+        this.socket.on("error", (error) => {
+            this.log.warn(`Session error: ${error.message}`);
+        });
+    }
+
+    close() {
+        this.socket.destroy();
+    }
+
+    notifyDeviceChanges(items: any[]) {
+        if(!this.loginPin) {
+            return;
+        }
+        this.send({
+            type: "invoke",
+            item: items
+        }, Types.DEVICE, DeviceSubTypes.INVOKE_NOTIFICATION);
+    }
+
+    private appendBuffer(bytes: Uint8Array | Buffer, offset = 0, length = bytes.byteLength) {
+        const temp = new Uint8Array(this.readBuffers.byteLength + length);
+        temp.set(new Uint8Array(this.readBuffers), 0);
+        temp.set(new Uint8Array(bytes.slice(offset, length + offset)), this.readBuffers.byteLength);
+        this.readBuffers = temp.buffer;
+    }
+
+    private handleRequest(): boolean {
+        const rawData = new Uint8Array(this.readBuffers);
+        const chunk = Chunk.parse(rawData);
+        if(chunk === undefined) {
+            return false;
+        }
+        const packet = Packet.parse(rawData);
+        this.readBuffers = new ArrayBuffer(0);
+        const chunkSize = chunk.getSize();
+        if(rawData.byteLength > chunkSize) {
+            this.appendBuffer(rawData, chunkSize, rawData.byteLength - chunkSize);
+        }
+        if(packet !== undefined) {
+            const header = packet.getHeader();
+            this.log.debug(`<=== HEAD(${header.toString()}) :: ${JSON.stringify(packet.getJSONBody())}`);
+            this.dispatch(header.getPin(), header.getType(), header.getSubType(), packet.getJSONBody() as any || {});
+        }
+        return true;
+    }
+
+    private send(body: object, type: Types, subType: SubTypes, error: Errors = Errors.SUCCESS) {
+        const pin = this.loginPin || this.certificationPin || "00000000";
+        this.log.debug(`===> ${JSON.stringify(body)}`);
+        this.socket.write(Buffer.from(Packet.create(body, pin, type, subType, 3, 1, error).getBytes()));
+    }
+
+    private sendError(type: Types, requestSubType: SubTypes, error: Errors) {
+        this.log.info(`Responding ${Errors[error]} to ${Types[type]} request`);
+        this.send({}, type, requestSubType + 1, error);
+    }
+
+    private dispatch(pin: string, type: Types, subType: SubTypes, body: any) {
+        const fault = this.server.takeFault(type, subType);
+        if(fault !== undefined) {
+            this.sendError(type, subType, fault);
+            return;
+        }
+        switch(type) {
+            case Types.LOGIN:
+                this.handleLogin(pin, subType as LoginSubTypes, body);
+                return;
+            case Types.SETTING:
+                if(this.checkLoggedIn(pin, type, subType)) {
+                    this.handleSetting(subType as SettingSubTypes, body);
+                }
+                return;
+            case Types.DEVICE:
+                if(this.checkLoggedIn(pin, type, subType)) {
+                    this.handleDevice(subType as DeviceSubTypes, body);
+                }
+                return;
+            case Types.ELEVATOR_CALL:
+                if(this.checkLoggedIn(pin, type, subType) && subType === ElevatorCallSubTypes.CALL_REQUEST) {
+                    this.send({}, type, ElevatorCallSubTypes.CALL_RESPONSE);
+                }
+                return;
+            default:
+                this.log.warn(`Unsupported request type: ${Types[type]}`);
+        }
+    }
+
+    private checkLoggedIn(pin: string, type: Types, subType: SubTypes): boolean {
+        if(this.loginPin.length === 0 || pin !== this.loginPin) {
+            this.sendError(type, subType, Errors.INVALID_LOGIN_PIN);
+            return false;
+        }
+        return true;
+    }
+
+    private handleLogin(pin: string, subType: LoginSubTypes, body: any) {
+        const fixture = this.server.getFixture();
+        const account = fixture.account;
+        switch(subType) {
+            case LoginSubTypes.CERTIFICATION_PIN_REQUEST:
+                if(body["id"] !== account.username || body["pw"] !== account.password) {
+                    this.sendError(Types.LOGIN, subType, Errors.INVALID_USERNAME_AND_PASSWORD);
+                    return;
+                }
+                if(!account.certified) {
+                    this.sendError(Types.LOGIN, subType, Errors.UNCERTIFIED_DEVICE);
+                    return;
+                }
+                this.certificationPin = SimulatorServer.generatePin();
+                this.send({
+                    certpin: this.certificationPin,
+                    dong: fixture.address.dong,
+                    ho: fixture.address.ho
+                }, Types.LOGIN, LoginSubTypes.CERTIFICATION_PIN_RESPONSE);
+                return;
+            case LoginSubTypes.LOGIN_PIN_REQUEST:
+                if(this.certificationPin.length === 0 || body["certpin"] !== this.certificationPin) {
+                    this.sendError(Types.LOGIN, subType, Errors.UNCERTIFIED_DEVICE);
+                    return;
+                }
+                this.loginPin = SimulatorServer.generatePin();
+                this.send({
+                    loginpin: this.loginPin
+                }, Types.LOGIN, LoginSubTypes.LOGIN_PIN_RESPONSE);
+                return;
+            case LoginSubTypes.MENU_REQUEST:
+                if(this.checkLoggedIn(pin, Types.LOGIN, subType)) {
+                    this.send({
+                        controlinfo: this.server.createControlInfo()
+                    }, Types.LOGIN, LoginSubTypes.MENU_RESPONSE);
+                }
+                return;
+            case LoginSubTypes.PUSH_REQUEST:
+                if(this.checkLoggedIn(pin, Types.LOGIN, subType)) {
+                    this.server.updatePushToken(body["pushID"], body["phoneType"] !== Client.UNREGISTERED_PHONE_TYPE);
+                    this.send({}, Types.LOGIN, LoginSubTypes.PUSH_RESPONSE);
+                }
+                return;
+            case LoginSubTypes.ALIVE_REQUEST:
+                this.send({}, Types.LOGIN, LoginSubTypes.ALIVE_RESPONSE);
+                return;
+            case LoginSubTypes.DELETE_CERTIFICATION_REQUEST:
+                this.send({}, Types.LOGIN, LoginSubTypes.DELETE_CERTIFICATION_RESPONSE);
+                return;
+            case LoginSubTypes.APPROVAL_DELETE_REQUEST:
+                this.send({}, Types.LOGIN, LoginSubTypes.APPROVAL_DELETE_RESPONSE);
+                return;
+            case LoginSubTypes.APPROVAL_REQUEST:
+                this.log.info(`Wall pad shows the PIN: ${account.wallPadPin}`);
+                this.send({}, Types.LOGIN, LoginSubTypes.APPROVAL_RESPONSE);
+                return;
+            case LoginSubTypes.WALL_PAD_REQUEST:
+                if(body["num"] !== account.wallPadPin) {
+                    this.sendError(Types.LOGIN, subType, Errors.INVALID_CERTIFICATION_NUMBER);
+                    return;
+                }
+                account.certified = true;
+                this.send({}, Types.LOGIN, LoginSubTypes.WALL_PAD_RESPONSE);
+                return;
+            default:
+                this.log.warn(`Unsupported login request: ${LoginSubTypes[subType]}`);
+        }
+    }
+
+    private handleSetting(subType: SettingSubTypes, body: any) {
+        const preferences = this.server.getFixture().pushPreferences;
+        switch(subType) {
+            case SettingSubTypes.PUSH_QUERY_REQUEST:
+                this.send({
+                    type: "query",
+                    item: Object.keys(preferences).map((name) => ({
+                        name: name,
+                        arg1: preferences[name]
+                    }))
+                }, Types.SETTING, SettingSubTypes.PUSH_QUERY_RESPONSE);
+                return;
+            case SettingSubTypes.PUSH_SETTING_REQUEST:
+                for(const item of body["item"] || []) {
+                    preferences[item["name"]] = item["arg1"];
+                }
+                this.send({
+                    type: "setting",
+                    item: body["item"] || []
+                }, Types.SETTING, SettingSubTypes.PUSH_SETTING_RESPONSE);
+                return;
+            default:
+                this.log.warn(`Unsupported setting request: ${SettingSubTypes[subType]}`);
+        }
+    }
+
+    private handleDevice(subType: DeviceSubTypes, body: any) {
+        const requestedItems = body["item"] || [];
+        switch(subType) {
+            case DeviceSubTypes.QUERY_REQUEST:
+                this.handleDeviceQuery(requestedItems);
+                return;
+            case DeviceSubTypes.INVOKE_REQUEST:
+                this.handleDeviceInvoke(requestedItems);
+                return;
+            case DeviceSubTypes.WALL_SOCKET_QUERY_REQUEST:
+                this.handleWallSocketQuery(requestedItems);
+                return;
+            case DeviceSubTypes.WALL_SOCKET_INVOKE_REQUEST:
+                this.handleWallSocketInvoke(requestedItems);
+                return;
+            default:
+                this.log.warn(`Unsupported device request: ${DeviceSubTypes[subType]}`);
+        }
+    }
+
+    private handleDeviceQuery(requestedItems: any[]) {
+        const items: any[] = [];
+        for(const item of requestedItems) {
+            for(const device of this.server.findDevices(item["device"], item["uid"])) {
+                items.push(SimulatorServer.createItem(item["device"], device));
+            }
+        }
+        this.send({
+            type: "query",
+            item: items
+        }, Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE);
+    }
+
+    private handleDeviceInvoke(requestedItems: any[]) {
+        const items: any[] = [];
+        for(const item of requestedItems) {
+            const devices = this.server.findDevices(item["device"], item["uid"]);
+            if(devices.length === 0) {
+                this.sendError(Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, Errors.INVALID_PARAMETER);
+                return;
+            }
+            for(const device of devices) {
+                for(const key of Object.keys(item)) {
+                    if(key.startsWith("arg")) {
+                        device.state[key] = item[key];
+                    }
+                }
+                items.push(SimulatorServer.createItem(item["device"], device));
+            }
+        }
+        this.send({
+            type: "invoke",
+            item: items
+        }, Types.DEVICE, DeviceSubTypes.INVOKE_RESPONSE);
+        this.server.notifyDeviceChanges(items, this);
+    }
+
+    private handleWallSocketQuery(requestedItems: any[]) {
+        const items: any[] = [];
+        for(const item of requestedItems) {
+            for(const device of this.server.findDevices(item["device"], item["uid"])) {
+                if(device.metering === undefined) {
+                    continue;
+                }
+                items.push(SimulatorServer.createMeteringItem(item["device"], device));
+            }
+        }
+        if(items.length === 0) {
+            this.sendError(Types.DEVICE, DeviceSubTypes.WALL_SOCKET_QUERY_REQUEST, Errors.INVALID_PARAMETER);
+            return;
+        }
+        this.send({
+            type: "query",
+            item: items
+        }, Types.DEVICE, DeviceSubTypes.WALL_SOCKET_QUERY_RESPONSE);
+    }
+
+    private handleWallSocketInvoke(requestedItems: any[]) {
+        const items: any[] = [];
+        for(const item of requestedItems) {
+            const devices = this.server.findDevices(item["device"], item["uid"]).filter((device) => device.metering !== undefined);
+            if(devices.length === 0) {
+                this.sendError(Types.DEVICE, DeviceSubTypes.WALL_SOCKET_INVOKE_REQUEST, Errors.INVALID_PARAMETER);
+                return;
+            }
+            for(const device of devices) {
+                for(const key of Object.keys(item)) {
+                    if(key.startsWith("arg")) {
+                        device.metering![key] = item[key];
+                    }
+                }
+                items.push(SimulatorServer.createMeteringItem(item["device"], device));
+            }
+        }
+        this.send({
+            type: "invoke",
+            item: items
+        }, Types.DEVICE, DeviceSubTypes.WALL_SOCKET_INVOKE_RESPONSE);
+    }
+
+}
+
+/**
+ * In-process stand-in of the MMF server of a complex.
+ * It speaks the same Chunk/Packet protocol with `NetworkHandler` and serves a virtual apartment defined in a fixture file.
+ */
+interface InjectedFault {
+    type: Types
+    subType: SubTypes
+    error: Errors
+    remaining: number
+}
+
+export class SimulatorServer {
+
+    private server?: net.Server;
+    private readonly sessions: SimulatorSession[] = [];
+    private readonly faults: InjectedFault[] = [];
+    private readonly pushTokens: string[] = [];
+
+    constructor(private readonly log: LoggerBase,
+                private readonly fixture: SimulatorFixture,
+                private readonly port: number = Client.MMF_SERVER_PORT) {
+    }
+
+    static generatePin(): string {
+        let pin = "";
+        for(let i = 0; i < 8; i++) {
+            pin += Math.floor(Math.random() * 10).toString();
+        }
+        return pin;
+    }
+
+    static createItem(deviceType: string, device: SimulatedDevice): any {
+        return {
+            device: deviceType,
+            uid: device.uid,
+            ...device.state
+        };
+    }
+
+    static createMeteringItem(deviceType: string, device: SimulatedDevice): any {
+        return {
+            ...SimulatorServer.createItem(deviceType, device),
+            ...device.metering
+        };
+    }
+
+    updatePushToken(token: string, registered: boolean) {
+        const index = this.pushTokens.indexOf(token);
+        if(registered && index === -1) {
+            this.pushTokens.push(token);
+        } else if(!registered && index !== -1) {
+            this.pushTokens.splice(index, 1);
+        }
+    }
+
+    getPushTokens(): string[] {
+        return [...this.pushTokens];
+    }
+
+    getFixture(): SimulatorFixture {
+        return this.fixture;
+    }
+
+    getComplex(): Complex {
+        return this.fixture.complex;
+    }
+
+    getMenuItems(): MenuItem[] {
+        return this.fixture.menus;
+    }
+
+    createControlInfo(): any {
+        const controlInfo: any = {};
+        for(const deviceType of Object.keys(this.fixture.devices)) {
+            controlInfo[deviceType] = this.fixture.devices[deviceType].map((device) => ({
+                uid: device.uid,
+                uname: device.uname,
+                ...(device.info || {})
+            }));
+        }
+        return controlInfo;
+    }
+
+    /**
+     * Responds the given error to the next requests of the given kind instead of serving them
+     */
+    failNext(type: Types, requestSubType: SubTypes, error: Errors, times = 1) {
+        this.faults.push({
+            type: type,
+            subType: requestSubType,
+            error: error,
+            remaining: times
+        });
+    }
+
+    takeFault(type: Types, requestSubType: SubTypes): Errors | undefined {
+        const fault = this.faults.find((fault) => fault.type === type && fault.subType === requestSubType);
+        if(fault === undefined) {
+            return undefined;
+        }
+        if(--fault.remaining <= 0) {
+            this.faults.splice(this.faults.indexOf(fault), 1);
+        }
+        return fault.error;
+    }
+
+    findDevices(deviceType: string, uid: string): SimulatedDevice[] {
+        const devices = this.fixture.devices[deviceType] || [];
+        if(uid === "all") {
+            return devices;
+        }
+        return devices.filter((device) => device.uid === uid);
+    }
+
+    /**
+     * Changes the device as if it has been controlled on the wall pad, and notifies every session
+     */
+    changeDevice(deviceType: string, uid: string, state: { [key: string]: string }): boolean {
+        const devices = this.findDevices(deviceType, uid);
+        for(const device of devices) {
+            Object.assign(device.state, state);
+        }
+        if(devices.length) {
+            this.notifyDeviceChanges(devices.map((device) => SimulatorServer.createItem(deviceType, device)));
+        }
+        return devices.length > 0;
+    }
+
+    notifyDeviceChanges(items: any[], except?: SimulatorSession) {
+        for(const session of this.sessions) {
+            if(session !== except) {
+                session.notifyDeviceChanges(items);
+            }
+        }
+    }
+
+    listen(): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            this.server = net.createServer((socket) => {
+                this.log.info(`Accepted connection from ${socket.remoteAddress}`);
+                const session = new SimulatorSession(this.log, this, socket);
+                this.sessions.push(session);
+                socket.on("close", () => {
+                    const index = this.sessions.indexOf(session);
+                    if(index !== -1) {
+                        this.sessions.splice(index, 1);
+                    }
+                });
+            });
+            this.server.once("error", reject);
+            this.server.listen(this.port, () => {
+                this.log.info(`MMF simulator is listening on port ${this.port}`);
+                resolve();
+            });
+        });
+    }
+
+    close(): Promise<void> {
+        for(const session of this.sessions.splice(0, this.sessions.length)) {
+            session.close();
+        }
+        return new Promise<void>((resolve) => {
+            if(!this.server) {
+                resolve();
+                return;
+            }
+            this.server.close(() => resolve());
+            this.server = undefined;
+        });
+    }
+
+}
+
+if(require.main === module) {
+    const fixturePath = process.argv[2] || DEFAULT_FIXTURE_PATH;
+    const server = new SimulatorServer(new Logger(), loadFixture(fixturePath));
+    server.listen().catch((reason) => {
+        console.error(`Failed to start the simulator: ${reason}`);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,55 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import {PlatformAccessory} from "homebridge";
+import {HomebridgeAPI} from "homebridge/lib/api";
+import {Client} from "../core/client";
+import {DeviceSubTypes, Types} from "../core/fields";
+import {Packet} from "../core/packet";
+import {FanAccessories} from "../homebridge/accessories/fan";
+import {SimulatorServer} from "../simulator/server";
+import {createClient, createConfig, createLogger, createStoragePath, disconnectClient, prepareClient, startClient, startSimulator, waitFor} from "./helpers";
+
+describe("Accessories", () => {
+
+    let server: SimulatorServer;
+    let storagePath: string;
+    let client: Client;
+    let fans: FanAccessories;
+
+    const getAccessory = (): PlatformAccessory | undefined => fans["accessories"][0];
+
+    beforeEach(async () => {
+        server = await startSimulator();
+        storagePath = createStoragePath();
+        const config = createConfig(storagePath);
+        client = createClient(config);
+        fans = new FanAccessories(createLogger(), new HomebridgeAPI(), config);
+        await prepareClient(client, server);
+        fans.setClient(client);
+        fans.registerListeners();
+        fans.registerAccessories();
+        await startClient(client);
+        await waitFor(() => getAccessory()?.context.init === true);
+    });
+
+    afterEach(async () => {
+        disconnectClient(client);
+        await server.close();
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it("refreshes the accessories with the merged state of partial notifications", async () => {
+        const device = server.getFixture().devices["fan"][0];
+        server.changeDevice("fan", device.uid, { arg1: "on", arg2: "02" });
+        await fans["queryDeviceStates"]();
+        assert.strictEqual(getAccessory()?.context.active, true);
+
+        await client["handler"]?.handlePacket(Packet.create({
+            item: [{ device: "fan", uid: device.uid, arg2: "03" }]
+        }, "00000000", Types.DEVICE, DeviceSubTypes.INVOKE_NOTIFICATION, 3, 1));
+
+        assert.strictEqual(getAccessory()?.context.active, true);
+        assert.strictEqual(getAccessory()?.context.rotationSpeed, "03");
+    });
+
+});
@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import {CapabilityDiscovery} from "../core/capabilities";
+
+describe("CapabilityDiscovery", () => {
+
+    it("accumulates the argument fields over the device items", () => {
+        let capabilities = CapabilityDiscovery.fromDeviceItem({ device: "cooler", uid: "Ac1-1", arg1: "on", arg3: "24" });
+        capabilities = CapabilityDiscovery.fromDeviceItem({ device: "cooler", uid: "Ac1-1", arg1: "off" }, capabilities);
+        capabilities = CapabilityDiscovery.fromDeviceItem({ device: "cooler", uid: "Ac1-1", arg2: "01" }, capabilities);
+        assert.deepStrictEqual(capabilities.arguments, ["arg1", "arg2", "arg3"]);
+    });
+
+    it("keeps the speed of fans reporting an empty speed while turned off", () => {
+        let capabilities = CapabilityDiscovery.fromDeviceItem({ device: "fan", uid: "Fn1-1", arg1: "on", arg2: "02" });
+        assert.strictEqual(capabilities.speed, true);
+        capabilities = CapabilityDiscovery.fromDeviceItem({ device: "fan", uid: "Fn1-1", arg1: "off", arg2: "" }, capabilities);
+        assert.strictEqual(capabilities.speed, true);
+    });
+
+    it("doesn't discover the speed of fans from an empty speed", () => {
+        const capabilities = CapabilityDiscovery.fromDeviceItem({ device: "fan", uid: "Fn1-1", arg1: "off", arg2: "" });
+        assert.strictEqual(capabilities.speed, false);
+    });
+
+    it("discovers the speed of fans only from a non-zero level while turned on", () => {
+        assert.strictEqual(CapabilityDiscovery.fromDeviceItem({ device: "fan", uid: "Fn1-1", arg1: "off", arg2: "02" }).speed, false);
+        assert.strictEqual(CapabilityDiscovery.fromDeviceItem({ device: "fan", uid: "Fn1-1", arg1: "on", arg2: "00" }).speed, false);
+        assert.strictEqual(CapabilityDiscovery.fromDeviceItem({ device: "fan", uid: "Fn1-1", arg1: "on", arg2: "03" }).speed, true);
+    });
+
+    it("seeds the speed of fans in the complexes known to support it", () => {
+        assert.strictEqual(CapabilityDiscovery.seed("fan", "naturedasan3").speed, true);
+        assert.strictEqual(CapabilityDiscovery.seed("fan", "unknown").speed, false);
+        assert.strictEqual(CapabilityDiscovery.seed("fan").speed, false);
+        assert.strictEqual(CapabilityDiscovery.seed("light", "naturedasan3").speed, false);
+    });
+
+    it("discovers the dimming of lights from the device info", () => {
+        assert.strictEqual(CapabilityDiscovery.fromDeviceInfo("light", { dimming: "y" }).dimming, true);
+        assert.strictEqual(CapabilityDiscovery.fromDeviceInfo("light", { dimming: "n" }).dimming, false);
+        const previous = CapabilityDiscovery.fromDeviceInfo("light", { dimming: "y" });
+        assert.strictEqual(CapabilityDiscovery.fromDeviceInfo("light", undefined, previous).dimming, true);
+    });
+
+    it("merges the capabilities without losing any of them", () => {
+        const merged = CapabilityDiscovery.merge(
+            { speed: true, dimming: false, arguments: ["arg1", "arg2"] },
+            { speed: false, dimming: true, arguments: ["arg1", "arg3"] }
+        );
+        assert.deepStrictEqual(merged, { speed: true, dimming: true, arguments: ["arg1", "arg2", "arg3"] });
+        assert.deepStrictEqual(CapabilityDiscovery.merge(undefined, merged), merged);
+    });
+
+    it("overrides the discovered capabilities by the config", () => {
+        const discovered = { speed: false, dimming: true, arguments: ["arg1"] };
+        assert.deepStrictEqual(CapabilityDiscovery.override(discovered, { speed: "supported", dimming: "unsupported" }), {
+            speed: true,
+            dimming: false,
+            arguments: ["arg1"]
+        });
+        assert.deepStrictEqual(CapabilityDiscovery.override(discovered, { speed: "auto" }), discovered);
+    });
+
+});
@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import {Client} from "../core/client";
+import {LoginSubTypes, Types} from "../core/fields";
+import {ControlInfo} from "../core/interfaces/messages";
+import {SessionStore} from "../core/session";
+import {SimulatorServer} from "../simulator/server";
+import {connectClient, createClient, createConfig, createLogger, createStoragePath, disconnectClient, prepareClient, startClient, startSimulator, waitFor} from "./helpers";
+
+describe("Client", () => {
+
+    let server: SimulatorServer;
+    let storagePath: string;
+    let client: Client | undefined;
+
+    beforeEach(async () => {
+        server = await startSimulator();
+        storagePath = createStoragePath();
+    });
+
+    afterEach(async () => {
+        if(client) {
+            disconnectClient(client);
+            client = undefined;
+        }
+        await server.close();
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    const storeSession = (certification: string, login: string, controlInfo?: ControlInfo) => {
+        const fixture = server.getFixture();
+        fs.writeFileSync(`${storagePath}/${SessionStore.FILE_NAME}`, JSON.stringify({
+            username: fixture.account.username,
+            complex: fixture.complex.directoryName,
+            authorization: { certification: certification, login: login },
+            address: { complex: fixture.address.dong, room: fixture.address.ho },
+            controlInfo: controlInfo,
+            updatedAt: Date.now()
+        }));
+    };
+
+    const spyLoginRequests = (client: Client): LoginSubTypes[] => {
+        const requests: LoginSubTypes[] = [];
+        const sendUnreliableRequest = client.sendUnreliableRequest.bind(client);
+        client.sendUnreliableRequest = (body, type, subType) => {
+            if(type === Types.LOGIN) {
+                requests.push(subType as LoginSubTypes);
+            }
+            return sendUnreliableRequest(body, type, subType);
+        };
+        return requests;
+    };
+
+    it("becomes ready after logging in to the simulator", async () => {
+        client = createClient(createConfig(storagePath));
+        await connectClient(client, server);
+
+        const session = new SessionStore(createLogger(), storagePath, server.getFixture().account.username, server.getFixture().complex.directoryName).load();
+        assert.ok(session);
+        assert.strictEqual(session.authorization.login.length, 8);
+        assert.ok(session.controlInfo);
+    });
+
+    it("delivers the stored menu before the server responds with a fresh menu", async () => {
+        client = createClient(createConfig(storagePath));
+        await connectClient(client, server);
+        disconnectClient(client);
+
+        const storedControlInfo: ControlInfo = { light: [{ uid: "Lt-stored", uname: "stored" }] };
+        const session = new SessionStore(createLogger(), storagePath, server.getFixture().account.username, server.getFixture().complex.directoryName).load();
+        assert.ok(session);
+        storeSession(session.authorization.certification, session.authorization.login, storedControlInfo);
+
+        client = createClient(createConfig(storagePath));
+        await prepareClient(client, server);
+        const menus: ControlInfo[] = [];
+        client.registerResponseListener(Types.LOGIN, LoginSubTypes.MENU_RESPONSE, (body) => {
+            menus.push(body.controlinfo);
+        });
+        await startClient(client);
+        await waitFor(() => menus.length === 2);
+
+        assert.deepStrictEqual(menus[0], storedControlInfo);
+        assert.notDeepStrictEqual(menus[1], storedControlInfo);
+    });
+
+    it("falls back to logging in when the stored login PIN is rejected", async () => {
+        storeSession("11111111", "22222222", { light: [{ uid: "Lt-stored", uname: "stored" }] });
+        client = createClient(createConfig(storagePath));
+        const requests = spyLoginRequests(client);
+        await connectClient(client, server);
+
+        assert.strictEqual(requests[0], LoginSubTypes.MENU_REQUEST);
+        assert.ok(!requests.includes(LoginSubTypes.DELETE_CERTIFICATION_REQUEST));
+        assert.ok(requests.includes(LoginSubTypes.CERTIFICATION_PIN_REQUEST));
+    });
+
+    it("falls back to logging in when the stored certification is rejected", async () => {
+        storeSession("11111111", "");
+        client = createClient(createConfig(storagePath));
+        const requests = spyLoginRequests(client);
+        await connectClient(client, server);
+
+        assert.strictEqual(requests[0], LoginSubTypes.LOGIN_PIN_REQUEST);
+        assert.ok(!requests.includes(LoginSubTypes.DELETE_CERTIFICATION_REQUEST));
+        assert.ok(requests.includes(LoginSubTypes.CERTIFICATION_PIN_REQUEST));
+    });
+
+});
@@ -0,0 +1,52 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import {PlatformAccessory} from "homebridge";
+import {HomebridgeAPI} from "homebridge/lib/api";
+import {Client} from "../core/client";
+import {CoolerAccessories, CoolerCapability} from "../homebridge/accessories/cooler";
+import {SimulatorServer} from "../simulator/server";
+import {createClient, createConfig, createLogger, createStoragePath, disconnectClient, prepareClient, startClient, startSimulator, waitFor} from "./helpers";
+
+describe("CoolerAccessories", () => {
+
+    let server: SimulatorServer;
+    let storagePath: string;
+    let client: Client;
+    let coolers: CoolerAccessories;
+
+    const getAccessory = (): PlatformAccessory => coolers["accessories"][0];
+    const getCapabilities = () => getAccessory()?.context["capabilities"] as CoolerCapability[] | undefined;
+
+    beforeEach(async () => {
+        server = await startSimulator();
+        storagePath = createStoragePath();
+        const config = createConfig(storagePath);
+        client = createClient(config);
+        coolers = new CoolerAccessories(createLogger(), new HomebridgeAPI(), config);
+        await prepareClient(client, server);
+        coolers.setClient(client);
+        coolers.registerListeners();
+        coolers.registerAccessories();
+        await startClient(client);
+        await waitFor(() => getCapabilities() !== undefined);
+    });
+
+    afterEach(async () => {
+        disconnectClient(client);
+        await server.close();
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it("probes the capabilities from the query", () => {
+        assert.deepStrictEqual(getCapabilities(), [CoolerCapability.MODE, CoolerCapability.FAN_SPEED, CoolerCapability.SWING]);
+    });
+
+    it("keeps the probed capabilities when the device omits the values", async () => {
+        const device = server.getFixture().devices["cooling"][0];
+        server.changeDevice("cooling", device.uid, { arg4: "", arg5: "", arg6: "" });
+        await coolers["queryDeviceStates"]();
+
+        assert.deepStrictEqual(getCapabilities(), [CoolerCapability.MODE, CoolerCapability.FAN_SPEED, CoolerCapability.SWING]);
+    });
+
+});
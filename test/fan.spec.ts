@@ -0,0 +1,67 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import {PlatformAccessory} from "homebridge";
+import {HomebridgeAPI} from "homebridge/lib/api";
+import {Client} from "../core/client";
+import {FanAccessories, FanCapability, VentilationMode} from "../homebridge/accessories/fan";
+import {SimulatorServer} from "../simulator/server";
+import {createClient, createConfig, createLogger, createStoragePath, disconnectClient, prepareClient, startClient, startSimulator, waitFor} from "./helpers";
+
+describe("FanAccessories", () => {
+
+    let server: SimulatorServer;
+    let storagePath: string;
+    let client: Client;
+    let fans: FanAccessories;
+
+    const getAccessory = (): PlatformAccessory => fans["accessories"][0];
+    const getCapabilities = (): FanCapability[] => fans["configuredCapabilities"].get(getAccessory()) || [];
+    const getDevice = () => server.getFixture().devices["fan"][0];
+
+    beforeEach(async () => {
+        server = await startSimulator();
+        storagePath = createStoragePath();
+        const config = createConfig(storagePath);
+        config.fan = {
+            airPurifier: true,
+            modes: { auto: "02", bypass: "03" },
+            offTimer: "01"
+        };
+        client = createClient(config);
+        fans = new FanAccessories(createLogger(), new HomebridgeAPI(), config);
+        await prepareClient(client, server);
+        fans.setClient(client);
+        fans.registerListeners();
+        fans.registerAccessories();
+        await startClient(client);
+        await waitFor(() => getAccessory()?.context.init === true);
+    });
+
+    afterEach(async () => {
+        disconnectClient(client);
+        await server.close();
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it("doesn't expose the modes and the off-timer only by the presence of the arguments", async () => {
+        server.changeDevice("fan", getDevice().uid, { arg1: "on", arg2: "01", arg3: "unknown", arg4: "" });
+        await fans["queryDeviceStates"]();
+
+        assert.ok(!getCapabilities().includes(FanCapability.MODE));
+        assert.ok(!getCapabilities().includes(FanCapability.TIMER));
+        assert.strictEqual(getAccessory().context.mode, undefined);
+    });
+
+    it("exposes the modes and the off-timer once the configured values have been reported", async () => {
+        server.changeDevice("fan", getDevice().uid, { arg1: "on", arg2: "01", arg3: "02", arg4: "01" });
+        await fans["queryDeviceStates"]();
+
+        assert.ok(getCapabilities().includes(FanCapability.MODE));
+        assert.ok(getCapabilities().includes(FanCapability.TIMER));
+        assert.strictEqual(getAccessory().context.mode, VentilationMode.AUTO);
+        assert.strictEqual(getAccessory().context.timer, true);
+        assert.ok(getAccessory().getServiceById(fans["api"].hap.Service.Switch, FanAccessories.getModeServiceSubtype(VentilationMode.BYPASS)));
+        assert.strictEqual(getAccessory().getServiceById(fans["api"].hap.Service.Switch, FanAccessories.getModeServiceSubtype(VentilationMode.SLEEP)), undefined);
+    });
+
+});
@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import {ConnectionState, ConnectionStateCallback, NetworkHandler} from "../core/network";
+import {Heartbeat} from "../core/heartbeat";
+import {Errors, LoginSubTypes, Types} from "../core/fields";
+import {DeferredRequestError, DeferredRequestTimeoutError} from "../core/errors";
+import {createLogger} from "./helpers";
+
+/**
+ * Stands in for the connection, answering ALIVE_REQUEST with the given outcome
+ */
+class StubHandler {
+
+    state = ConnectionState.AUTHENTICATING;
+    requests = 0;
+    reconnections = 0;
+    private readonly listeners: ConnectionStateCallback[] = [];
+
+    constructor(public respond: () => Promise<any>) {
+    }
+
+    registerStateListener(callback: ConnectionStateCallback) {
+        this.listeners.push(callback);
+    }
+
+    setState(state: ConnectionState) {
+        const previousState = this.state;
+        this.state = state;
+        this.listeners.forEach((listener) => listener(state, previousState));
+    }
+
+    getState(): ConnectionState {
+        return this.state;
+    }
+
+    sendDeferredRequest(body: any, pin: string, type: Types, fromSubType: LoginSubTypes): Promise<any> {
+        assert.strictEqual(type, Types.LOGIN);
+        assert.strictEqual(fromSubType, LoginSubTypes.ALIVE_REQUEST);
+        this.requests++;
+        return this.respond();
+    }
+
+    handle() {
+        this.reconnections++;
+        this.setState(ConnectionState.CONNECTING);
+    }
+
+}
+
+describe("Heartbeat", () => {
+
+    const INTERVAL = 20;
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    let handler: StubHandler;
+
+    const createHeartbeat = () => new Heartbeat(createLogger(), handler as unknown as NetworkHandler, () => "00000000", { interval: INTERVAL });
+
+    afterEach(() => {
+        handler.setState(ConnectionState.DISCONNECTED);
+    });
+
+    it("sends the requests at the configured interval only while the connection is ready", async () => {
+        handler = new StubHandler(async () => ({}));
+        createHeartbeat();
+        await sleep(INTERVAL * 3);
+        assert.strictEqual(handler.requests, 0);
+
+        handler.setState(ConnectionState.READY);
+        await sleep(INTERVAL * 5);
+        assert.ok(handler.requests >= 2, `${handler.requests} requests`);
+        assert.strictEqual(handler.reconnections, 0);
+
+        handler.setState(ConnectionState.BACKING_OFF);
+        const requests = handler.requests;
+        await sleep(INTERVAL * 3);
+        assert.strictEqual(handler.requests, requests);
+    });
+
+    it("reconnects when the server doesn't respond in time", async () => {
+        handler = new StubHandler(async () => {
+            throw new DeferredRequestTimeoutError(Types.LOGIN, LoginSubTypes.ALIVE_REQUEST, 10);
+        });
+        createHeartbeat();
+        handler.setState(ConnectionState.READY);
+        await sleep(INTERVAL * 3);
+
+        assert.strictEqual(handler.reconnections, 1);
+        assert.strictEqual(handler.requests, 1);
+    });
+
+    it("leaves the expired sessions to the session recovery", async () => {
+        handler = new StubHandler(async () => {
+            throw new DeferredRequestError(Errors.LOGGED_OUT_TIMEOUT, Types.LOGIN, LoginSubTypes.ALIVE_REQUEST);
+        });
+        createHeartbeat();
+        handler.setState(ConnectionState.READY);
+        await sleep(INTERVAL * 3);
+
+        assert.ok(handler.requests >= 1);
+        assert.strictEqual(handler.reconnections, 0);
+    });
+
+    it("falls back to the default interval", () => {
+        handler = new StubHandler(async () => ({}));
+        const heartbeat = new Heartbeat(createLogger(), handler as unknown as NetworkHandler, () => "00000000", { interval: 0 });
+        assert.strictEqual(heartbeat["interval"], Heartbeat.DEFAULT_INTERVAL);
+    });
+
+});
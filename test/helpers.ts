@@ -0,0 +1,97 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {Logging} from "homebridge";
+import {ConnectionState, LoggerBase} from "../core/network";
+import {DaelimConfig} from "../core/interfaces/daelim-config";
+import {SimulatorServer} from "../simulator/server";
+import {loadFixture} from "../simulator/fixture";
+import {Client} from "../core/client";
+import {Utils} from "../core/utils";
+
+export const FIXTURE_PATH = path.join(__dirname, "../simulator/fixtures/apartment.json");
+
+export function createLogger(): Logging {
+    const log: any = () => {};
+    log.info = () => {};
+    log.warn = () => {};
+    log.error = () => {};
+    log.debug = () => {};
+    log.log = () => {};
+    return log as Logging;
+}
+
+export function createSimulatorLogger(): LoggerBase {
+    return createLogger();
+}
+
+export function createStoragePath(): string {
+    return fs.mkdtempSync(path.join(os.tmpdir(), "daelim-test-"));
+}
+
+export function createConfig(storagePath: string): DaelimConfig {
+    const fixture = loadFixture(FIXTURE_PATH);
+    return {
+        region: fixture.complex.region,
+        complex: fixture.complex.directoryName,
+        username: fixture.account.username,
+        password: fixture.account.password,
+        uuid: "00000000-0000-0000-0000-000000000000",
+        version: Utils.createSemanticVersion(1, 0, 0),
+        storagePath: storagePath,
+        devices: []
+    };
+}
+
+export async function startSimulator(): Promise<SimulatorServer> {
+    const server = new SimulatorServer(createSimulatorLogger(), loadFixture(FIXTURE_PATH));
+    await server.listen();
+    return server;
+}
+
+/**
+ * Creates a client without push transports, which would reach the real push services otherwise
+ */
+export function createClient(config: DaelimConfig): Client {
+    return new Client(createLogger(), config, undefined, []);
+}
+
+export async function prepareClient(client: Client, server: SimulatorServer): Promise<void> {
+    await client.prepareService(server.getComplex(), server.getMenuItems());
+    client.registerListeners();
+    client.registerErrorListeners();
+}
+
+/**
+ * Listeners of the accessories must be registered after the client has been prepared
+ */
+export async function startClient(client: Client): Promise<void> {
+    const ready = new Promise<void>((resolve) => {
+        client.registerConnectionStateListener((state) => {
+            if(state === ConnectionState.READY) {
+                resolve();
+            }
+        });
+    });
+    client.startService();
+    await ready;
+}
+
+export async function connectClient(client: Client, server: SimulatorServer): Promise<void> {
+    await prepareClient(client, server);
+    await startClient(client);
+}
+
+export function disconnectClient(client: Client) {
+    client["handler"]?.disconnect();
+}
+
+export async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+    const startedAt = Date.now();
+    while(!condition()) {
+        if(Date.now() - startedAt > timeout) {
+            throw new Error("Timed out waiting for the condition");
+        }
+        await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+}
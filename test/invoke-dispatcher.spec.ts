@@ -0,0 +1,127 @@
+import * as assert from "assert";
+import {InvokeDispatcher} from "../core/invoke-dispatcher";
+import {DeviceItem, DeviceResponse} from "../core/interfaces/messages";
+
+describe("InvokeDispatcher", () => {
+
+    describe("mergeItems", () => {
+
+        it("merges the arguments of the invokes to the same device", () => {
+            const packets = InvokeDispatcher.mergeItems([
+                { device: "cooler", uid: "Ac1-1", arg1: "on" },
+                { device: "cooler", uid: "Ac1-1", arg3: "24" }
+            ]);
+            assert.deepStrictEqual(packets, [
+                [{ device: "cooler", uid: "Ac1-1", arg1: "on", arg3: "24" }]
+            ]);
+        });
+
+        it("keeps the invokes to the different devices in a packet", () => {
+            const packets = InvokeDispatcher.mergeItems([
+                { device: "light", uid: "Lt1-1", arg1: "on" },
+                { device: "light", uid: "Lt1-2", arg1: "off" }
+            ]);
+            assert.deepStrictEqual(packets, [[
+                { device: "light", uid: "Lt1-1", arg1: "on" },
+                { device: "light", uid: "Lt1-2", arg1: "off" }
+            ]]);
+        });
+
+        it("defers the conflicting invokes to the following packets", () => {
+            const packets = InvokeDispatcher.mergeItems([
+                { device: "light", uid: "Lt1-1", arg1: "on" },
+                { device: "light", uid: "Lt1-1", arg1: "off" },
+                { device: "light", uid: "Lt1-2", arg1: "on" }
+            ]);
+            assert.deepStrictEqual(packets, [
+                [{ device: "light", uid: "Lt1-1", arg1: "on" }],
+                [
+                    { device: "light", uid: "Lt1-1", arg1: "off" },
+                    { device: "light", uid: "Lt1-2", arg1: "on" }
+                ]
+            ]);
+        });
+
+    });
+
+    describe("matches", () => {
+
+        const packet: DeviceItem[] = [
+            { device: "light", uid: "Lt1-1", arg1: "on" },
+            { device: "light", uid: "Lt1-2", arg1: "on" }
+        ];
+
+        it("matches the responses covering exactly the devices of the packet", () => {
+            assert.strictEqual(InvokeDispatcher.matches(packet, {
+                item: [{ device: "light", uid: "Lt1-2", arg1: "on" }, { device: "light", uid: "Lt1-1", arg1: "on" }]
+            }), true);
+        });
+
+        it("doesn't match the responses of the other packets sharing some of the devices", () => {
+            assert.strictEqual(InvokeDispatcher.matches(packet, {
+                item: [{ device: "light", uid: "Lt1-1", arg1: "off" }]
+            }), false);
+            assert.strictEqual(InvokeDispatcher.matches(packet, {
+                item: [
+                    { device: "light", uid: "Lt1-1", arg1: "on" },
+                    { device: "light", uid: "Lt1-2", arg1: "on" },
+                    { device: "light", uid: "Lt1-3", arg1: "on" }
+                ]
+            }), false);
+        });
+
+    });
+
+    describe("dispatch", () => {
+
+        const respond = (items: DeviceItem[]): DeviceResponse => ({
+            item: items.map((item) => ({ ...item }))
+        });
+
+        it("sends the invokes within the window at once", async () => {
+            const sent: DeviceItem[][] = [];
+            const dispatcher = new InvokeDispatcher(async (items) => {
+                sent.push(items);
+                return respond(items);
+            }, 10);
+            const [first, second] = await Promise.all([
+                dispatcher.dispatch({ device: "light", uid: "Lt1-1", arg1: "on" }),
+                dispatcher.dispatch({ device: "light", uid: "Lt1-2", arg1: "on" })
+            ]);
+            assert.strictEqual(sent.length, 1);
+            assert.deepStrictEqual(first.item, [{ device: "light", uid: "Lt1-1", arg1: "on" }]);
+            assert.deepStrictEqual(second.item, [{ device: "light", uid: "Lt1-2", arg1: "on" }]);
+        });
+
+        it("resolves the conflicting invokes with the responses of their own packets", async () => {
+            const sent: DeviceItem[][] = [];
+            const dispatcher = new InvokeDispatcher(async (items) => {
+                sent.push(items);
+                return respond(items);
+            }, 10);
+            const [first, second] = await Promise.all([
+                dispatcher.dispatch({ device: "light", uid: "Lt1-1", arg1: "on" }),
+                dispatcher.dispatch({ device: "light", uid: "Lt1-1", arg1: "off" })
+            ]);
+            assert.strictEqual(sent.length, 2);
+            assert.strictEqual(first.item[0].arg1, "on");
+            assert.strictEqual(second.item[0].arg1, "off");
+        });
+
+        it("rejects the invokes of the packets which have not been sent", async () => {
+            let sentPackets = 0;
+            const dispatcher = new InvokeDispatcher(async (items) => {
+                if(sentPackets++ > 0) {
+                    throw new Error("Timed out");
+                }
+                return respond(items);
+            }, 10);
+            const first = dispatcher.dispatch({ device: "light", uid: "Lt1-1", arg1: "on" });
+            const second = dispatcher.dispatch({ device: "light", uid: "Lt1-1", arg1: "off" });
+            assert.strictEqual((await first).item[0].arg1, "on");
+            await assert.rejects(second, /Timed out/);
+        });
+
+    });
+
+});
@@ -0,0 +1,139 @@
+import * as assert from "assert";
+import {NetworkHandler} from "../core/network";
+import {Packet} from "../core/packet";
+import {DeviceSubTypes, LoginSubTypes, Types} from "../core/fields";
+import {DeferredRequestTimeoutError} from "../core/errors";
+import {loadFixture} from "../simulator/fixture";
+import {SimulatorServer} from "../simulator/server";
+import {createLogger, FIXTURE_PATH, startSimulator} from "./helpers";
+
+describe("NetworkHandler", () => {
+
+    let handler: NetworkHandler;
+
+    beforeEach(() => {
+        handler = new NetworkHandler(createLogger(), loadFixture(FIXTURE_PATH).complex);
+    });
+
+    afterEach(() => {
+        handler.disconnect();
+    });
+
+    const createResponse = (body: any, type: Types, subType: number) => Packet.create(body, "00000000", type, subType, 3, 1);
+
+    describe("deferred requests", () => {
+
+        it("expires the requests on their own timers", async () => {
+            const startedAt = Date.now();
+            await assert.rejects(
+                handler.sendDeferredRequest({}, "00000000", Types.LOGIN, LoginSubTypes.MENU_REQUEST, LoginSubTypes.MENU_RESPONSE, undefined, 50),
+                (e) => e instanceof DeferredRequestTimeoutError && e.timeout === 50
+            );
+            assert.ok(Date.now() - startedAt < 1000);
+            assert.strictEqual(handler.getStatistics().expired, 1);
+        });
+
+        it("removes the resolved requests from the reconnection queue", async () => {
+            const request = handler.sendDeferredRequest({
+                type: "query",
+                item: [{ device: "light", uid: "all" }]
+            }, "00000000", Types.DEVICE, DeviceSubTypes.QUERY_REQUEST, DeviceSubTypes.QUERY_RESPONSE);
+            handler["requeueDeferredRequests"]();
+            assert.strictEqual(handler["enqueuedRequests"].length, 1);
+
+            await handler.handlePacket(createResponse({ type: "query", item: [] }, Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE));
+            await request;
+            assert.strictEqual(handler["enqueuedRequests"].length, 0);
+            assert.strictEqual(handler.getStatistics().resolved, 1);
+        });
+
+        it("removes the expired requests from the reconnection queue", async () => {
+            const request = handler.sendDeferredRequest({}, "00000000", Types.LOGIN, LoginSubTypes.MENU_REQUEST, LoginSubTypes.MENU_RESPONSE, undefined, 50);
+            handler["requeueDeferredRequests"]();
+
+            await assert.rejects(request, DeferredRequestTimeoutError);
+            assert.strictEqual(handler["enqueuedRequests"].length, 0);
+        });
+
+    });
+
+    describe("responses", () => {
+
+        it("delivers the menu response with a malformed device to the listeners", async () => {
+            const responses: any[] = [];
+            handler.registerResponseListener(Types.LOGIN, LoginSubTypes.MENU_RESPONSE, (body) => {
+                responses.push(body);
+            });
+            await handler.handlePacket(createResponse({
+                controlinfo: {
+                    light: [{ uid: "Lt1-1", uname: "거실" }, { uid: "Lt1-2" }],
+                    version: "2"
+                }
+            }, Types.LOGIN, LoginSubTypes.MENU_RESPONSE));
+
+            assert.strictEqual(responses.length, 1);
+            assert.deepStrictEqual(responses[0]["controlinfo"], { light: [{ uid: "Lt1-1", uname: "거실" }] });
+        });
+
+    });
+
+    describe("connection", () => {
+
+        let server: SimulatorServer;
+
+        beforeEach(async () => {
+            server = await startSimulator();
+        });
+
+        afterEach(async () => {
+            await server.close();
+        });
+
+        const connect = () => new Promise<void>((resolve) => {
+            handler.onConnected = resolve;
+            handler.handle();
+        });
+
+        const login = async (): Promise<string> => {
+            const account = server.getFixture().account;
+            const certification = await handler.sendDeferredRequest({
+                id: account.username,
+                pw: account.password,
+                UUID: "00000000-0000-0000-0000-000000000000"
+            }, "00000000", Types.LOGIN, LoginSubTypes.CERTIFICATION_PIN_REQUEST, LoginSubTypes.CERTIFICATION_PIN_RESPONSE);
+            const login = await handler.sendDeferredRequest({
+                id: account.username,
+                pw: account.password,
+                certpin: certification["certpin"]
+            }, certification["certpin"], Types.LOGIN, LoginSubTypes.LOGIN_PIN_REQUEST, LoginSubTypes.LOGIN_PIN_RESPONSE);
+            return login["loginpin"];
+        };
+
+        it("notifies the disconnection of the sockets replaced by reconnecting", async () => {
+            await connect();
+            let disconnections = 0;
+            handler.onDisconnected = () => disconnections++;
+
+            await connect();
+            assert.strictEqual(disconnections, 1);
+        });
+
+        it("queues the requests issued while disconnected until the connection is ready", async () => {
+            const request = handler.sendDeferredRequest({
+                type: "query",
+                item: [{ device: "light", uid: "all" }]
+            }, "00000000", Types.DEVICE, DeviceSubTypes.QUERY_REQUEST, DeviceSubTypes.QUERY_RESPONSE);
+            assert.strictEqual(handler["enqueuedRequests"].length, 1);
+
+            await connect();
+            const pin = await login();
+            handler.markReady();
+            assert.strictEqual(handler.flushAllEnqueuedBuffers(pin), true);
+
+            const response = await request;
+            assert.strictEqual(response.item.length, server.getFixture().devices["light"].length);
+        });
+
+    });
+
+});
@@ -0,0 +1,83 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import {PlatformAccessory} from "homebridge";
+import {HomebridgeAPI} from "homebridge/lib/api";
+import {Client} from "../core/client";
+import {DaelimConfig} from "../core/interfaces/daelim-config";
+import {OutletAccessories} from "../homebridge/accessories/outlet";
+import {SimulatorServer} from "../simulator/server";
+import {createClient, createConfig, createLogger, createStoragePath, disconnectClient, prepareClient, startClient, startSimulator, waitFor} from "./helpers";
+
+describe("OutletAccessories", () => {
+
+    let server: SimulatorServer;
+    let storagePath: string;
+    let client: Client | undefined;
+    let outlets: OutletAccessories;
+
+    const getAccessory = (): PlatformAccessory => outlets["accessories"][0];
+
+    const start = async (configure: (config: DaelimConfig) => void = () => undefined) => {
+        const config = createConfig(storagePath);
+        configure(config);
+        client = createClient(config);
+        outlets = new OutletAccessories(createLogger(), new HomebridgeAPI(), config);
+        await prepareClient(client, server);
+        outlets.setClient(client);
+        outlets.registerListeners();
+        outlets.registerAccessories();
+        await startClient(client);
+        await waitFor(() => outlets["meteringSupported"] !== undefined);
+    };
+
+    beforeEach(async () => {
+        server = await startSimulator();
+        storagePath = createStoragePath();
+    });
+
+    afterEach(async () => {
+        if(client) {
+            disconnectClient(client);
+            client = undefined;
+        }
+        await server.close();
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it("meters the outlets from the wall-socket query", async () => {
+        await start();
+
+        assert.strictEqual(outlets["meteringSupported"], true);
+        assert.strictEqual(getAccessory().context.metered, true);
+        assert.strictEqual(getAccessory().context.power, 12.5);
+        assert.strictEqual(getAccessory().context.energy, 3.42);
+        assert.strictEqual(outlets.isOutletInUse(getAccessory()), true);
+    });
+
+    it("doesn't meter the outlets from malformed wall-socket query responses", async () => {
+        const device = server.getFixture().devices["wallsocket"][0];
+        device.metering = { ...device.metering, arg2: "", arg3: "" };
+        await start();
+
+        assert.strictEqual(outlets["meteringSupported"], false);
+        assert.strictEqual(getAccessory().context.metered, false);
+        assert.strictEqual(outlets.isOutletInUse(getAccessory()), true);
+    });
+
+    it("exposes the switch of standby power auto cut-off only when opted in", async () => {
+        await start();
+        assert.strictEqual(getAccessory().getServiceById(outlets["api"].hap.Service.Switch, OutletAccessories.CUT_OFF_SERVICE_SUBTYPE), undefined);
+        disconnectClient(client!);
+
+        await start((config) => config.wallSocket = { standbyCutOff: true });
+        assert.ok(getAccessory().getServiceById(outlets["api"].hap.Service.Switch, OutletAccessories.CUT_OFF_SERVICE_SUBTYPE));
+    });
+
+    it("decides whether the outlets are in use by its own threshold", async () => {
+        await start((config) => config.wallSocket = { inUseThreshold: 20, standbyThreshold: 1 });
+
+        assert.strictEqual(outlets.isOutletInUse(getAccessory()), false);
+        assert.strictEqual(outlets.getStandbyThreshold(getAccessory()), 1);
+    });
+
+});
@@ -0,0 +1,101 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import {NetworkHandler} from "../core/network";
+import {DeviceSubTypes, LoginSubTypes, Types} from "../core/fields";
+import {PacketDirection, PacketRecorder, PacketReplayer} from "../core/recorder";
+import {SimulatorServer} from "../simulator/server";
+import {createLogger, createStoragePath, startSimulator} from "./helpers";
+
+describe("PacketRecorder", () => {
+
+    let storagePath: string;
+
+    beforeEach(() => {
+        storagePath = createStoragePath();
+    });
+
+    afterEach(() => {
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it("disables recording when the capture path is unwritable", async () => {
+        const recorder = new PacketRecorder(createLogger(), path.join(storagePath, "missing", "capture.jsonl"));
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        assert.strictEqual(recorder.isRecording(), false);
+        await recorder.close();
+    });
+
+    describe("replay", () => {
+
+        let server: SimulatorServer;
+
+        beforeEach(async () => {
+            server = await startSimulator();
+        });
+
+        afterEach(async () => {
+            await server.close();
+        });
+
+        const capture = async (capturePath: string) => {
+            const account = server.getFixture().account;
+            const handler = new NetworkHandler(createLogger(), server.getComplex());
+            const recorder = new PacketRecorder(createLogger(), capturePath);
+            handler.setRecorder(recorder);
+            const connected = new Promise<void>((resolve) => handler.onConnected = resolve);
+            handler.handle();
+            await connected;
+
+            const certification = await handler.sendDeferredRequest({
+                id: account.username,
+                pw: account.password,
+                UUID: "00000000-0000-0000-0000-000000000000"
+            }, "00000000", Types.LOGIN, LoginSubTypes.CERTIFICATION_PIN_REQUEST, LoginSubTypes.CERTIFICATION_PIN_RESPONSE);
+            const login = await handler.sendDeferredRequest({
+                id: account.username,
+                pw: account.password,
+                certpin: certification["certpin"]
+            }, certification["certpin"], Types.LOGIN, LoginSubTypes.LOGIN_PIN_REQUEST, LoginSubTypes.LOGIN_PIN_RESPONSE);
+            await handler.sendDeferredRequest({
+                type: "query",
+                item: [{ device: "light", uid: "all" }]
+            }, login["loginpin"], Types.DEVICE, DeviceSubTypes.QUERY_REQUEST, DeviceSubTypes.QUERY_RESPONSE);
+
+            handler.disconnect();
+            await recorder.close();
+        };
+
+        it("records the packets without the credentials", async () => {
+            const capturePath = PacketRecorder.createFilePath(storagePath);
+            await capture(capturePath);
+
+            const records = PacketReplayer.load(capturePath);
+            const sent = records.filter((record) => record.direction === PacketDirection.SENT);
+            assert.strictEqual(sent.length, 3);
+            assert.strictEqual(sent[0].body["pw"], "[REDACTED]");
+            const certification = records.find((record) => record.header.subType === LoginSubTypes.CERTIFICATION_PIN_RESPONSE);
+            assert.strictEqual(certification?.body["certpin"], "[REDACTED]");
+        });
+
+        it("replays the received packets of the capture into the listeners", async () => {
+            const capturePath = PacketRecorder.createFilePath(storagePath);
+            await capture(capturePath);
+
+            const handler = new NetworkHandler(createLogger(), server.getComplex());
+            const responses: any[] = [];
+            handler.registerResponseListener(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, (body) => {
+                responses.push(body);
+            });
+            const replayed = await new PacketReplayer(handler).replay(PacketReplayer.load(capturePath));
+
+            assert.strictEqual(replayed, 3);
+            assert.strictEqual(responses.length, 1);
+            assert.deepStrictEqual(responses[0]["item"].map((item: any) => item["uid"]),
+                server.getFixture().devices["light"].map((device) => device.uid));
+        });
+
+    });
+
+});
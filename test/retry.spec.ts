@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import {RetryPolicy} from "../core/retry";
+import {DeferredRequestError, DeferredRequestTimeoutError} from "../core/errors";
+import {DeviceSubTypes, Errors, Types} from "../core/fields";
+import {createLogger} from "./helpers";
+
+describe("RetryPolicy", () => {
+
+    const createError = (error: Errors) => new DeferredRequestError(error, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST);
+
+    it("retries the transient errors of the server only", () => {
+        const policy = new RetryPolicy();
+        assert.strictEqual(policy.isRetryable(createError(Errors.TOO_MANY_REQUESTS)), true);
+        assert.strictEqual(policy.isRetryable(createError(Errors.UNSTABLE_DEVICE_CONTROL_COMMUNICATION)), true);
+        assert.strictEqual(policy.isRetryable(createError(Errors.INVALID_PARAMETER)), false);
+        assert.strictEqual(policy.isRetryable(new DeferredRequestTimeoutError(Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, 1000)), false);
+        assert.strictEqual(policy.isRetryable(new Error("Unknown")), false);
+    });
+
+    it("retries the errors named by the config instead of the defaults", () => {
+        const policy = new RetryPolicy({ errors: ["INVALID_PARAMETER", "NOT_AN_ERROR"] });
+        assert.deepStrictEqual(policy.retryableErrors, [Errors.INVALID_PARAMETER]);
+        assert.strictEqual(policy.isRetryable(createError(Errors.TOO_MANY_REQUESTS)), false);
+    });
+
+    it("backs off exponentially up to the max delay", () => {
+        const policy = new RetryPolicy({ initialDelay: 100, maxDelay: 300, jitter: 0 });
+        assert.deepStrictEqual([1, 2, 3, 4].map((attempt) => policy.getDelay(attempt)), [100, 200, 300, 300]);
+    });
+
+    it("gives up after the max attempts", async () => {
+        const policy = new RetryPolicy({ maxAttempts: 3, initialDelay: 0 });
+        let attempts = 0;
+        await assert.rejects(policy.execute(createLogger(), async () => {
+            attempts++;
+            throw createError(Errors.TOO_MANY_REQUESTS);
+        }), DeferredRequestError);
+        assert.strictEqual(attempts, 3);
+    });
+
+    it("doesn't retry the errors which are not retryable", async () => {
+        const policy = new RetryPolicy({ initialDelay: 0 });
+        let attempts = 0;
+        await assert.rejects(policy.execute(createLogger(), async () => {
+            attempts++;
+            throw createError(Errors.INVALID_PARAMETER);
+        }));
+        assert.strictEqual(attempts, 1);
+    });
+
+    it("returns the result once an attempt succeeds", async () => {
+        const policy = new RetryPolicy({ initialDelay: 0 });
+        let attempts = 0;
+        const result = await policy.execute(createLogger(), async () => {
+            if(++attempts < 2) {
+                throw createError(Errors.TRY_AGAIN_LAYER);
+            }
+            return "done";
+        });
+        assert.strictEqual(result, "done");
+        assert.strictEqual(attempts, 2);
+    });
+
+});
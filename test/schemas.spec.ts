@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import {normalizeResponse, validateResponse} from "../core/schemas";
+import {DeviceSubTypes, LoginSubTypes, Types} from "../core/fields";
+
+describe("Schemas", () => {
+
+    describe("device responses", () => {
+
+        it("drops the malformed items only", () => {
+            const body = {
+                item: [
+                    { device: "light", uid: "Lt1-1", arg1: "on" },
+                    { device: "light", arg1: "on" },
+                    { device: "light", uid: "Lt1-2", arg1: { state: "on" } }
+                ]
+            };
+            const dropped = normalizeResponse(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, body);
+
+            assert.strictEqual(dropped.length, 2);
+            assert.deepStrictEqual(body.item, [{ device: "light", uid: "Lt1-1", arg1: "on" }]);
+            assert.deepStrictEqual(validateResponse(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, body), []);
+        });
+
+        it("coerces the numeric arguments into strings", () => {
+            const body = { item: [{ device: "heating", uid: "Ht1-1", arg2: 24 }] };
+            normalizeResponse(Types.DEVICE, DeviceSubTypes.QUERY_RESPONSE, body);
+
+            assert.deepStrictEqual(body.item, [{ device: "heating", uid: "Ht1-1", arg2: "24" }]);
+        });
+
+    });
+
+    describe("menu responses", () => {
+
+        it("drops the malformed devices of the control info only", () => {
+            const body = {
+                controlinfo: {
+                    light: [
+                        { uid: "Lt1-1", uname: "거실", dimming: "y" },
+                        { uid: "Lt1-2" }
+                    ],
+                    heating: [{ uid: "Ht1-1", uname: "거실" }],
+                    version: "2"
+                }
+            };
+            const dropped = normalizeResponse(Types.LOGIN, LoginSubTypes.MENU_RESPONSE, body);
+
+            assert.strictEqual(dropped.length, 2);
+            assert.deepStrictEqual(body.controlinfo, {
+                light: [{ uid: "Lt1-1", uname: "거실", dimming: "y" }],
+                heating: [{ uid: "Ht1-1", uname: "거실" }]
+            });
+            assert.deepStrictEqual(validateResponse(Types.LOGIN, LoginSubTypes.MENU_RESPONSE, body), []);
+        });
+
+        it("rejects the menu responses without the control info", () => {
+            const body = {};
+            assert.deepStrictEqual(normalizeResponse(Types.LOGIN, LoginSubTypes.MENU_RESPONSE, body), []);
+            assert.notDeepStrictEqual(validateResponse(Types.LOGIN, LoginSubTypes.MENU_RESPONSE, body), []);
+        });
+
+    });
+
+});
@@ -0,0 +1,81 @@
+import * as assert from "assert";
+import {NetworkHandler} from "../core/network";
+import {DeviceSubTypes, Errors, LoginSubTypes, Types} from "../core/fields";
+import {SimulatorServer} from "../simulator/server";
+import {createLogger, startSimulator} from "./helpers";
+
+describe("SimulatorServer", () => {
+
+    const CERTIFICATION_PIN = "00000000";
+
+    let server: SimulatorServer;
+    let handler: NetworkHandler;
+
+    beforeEach(async () => {
+        server = await startSimulator();
+        handler = new NetworkHandler(createLogger(), server.getComplex());
+        const connected = new Promise<void>((resolve) => handler.onConnected = resolve);
+        handler.handle();
+        await connected;
+    });
+
+    afterEach(async () => {
+        handler.disconnect();
+        await server.close();
+    });
+
+    const login = async (): Promise<string> => {
+        const account = server.getFixture().account;
+        const certification = await handler.sendDeferredRequest({
+            id: account.username,
+            pw: account.password,
+            UUID: "00000000-0000-0000-0000-000000000000"
+        }, CERTIFICATION_PIN, Types.LOGIN, LoginSubTypes.CERTIFICATION_PIN_REQUEST, LoginSubTypes.CERTIFICATION_PIN_RESPONSE);
+        const login = await handler.sendDeferredRequest({
+            id: account.username,
+            pw: account.password,
+            certpin: certification["certpin"]
+        }, certification["certpin"], Types.LOGIN, LoginSubTypes.LOGIN_PIN_REQUEST, LoginSubTypes.LOGIN_PIN_RESPONSE);
+        return login["loginpin"];
+    };
+
+    it("issues the PINs to the account of the fixture", async () => {
+        const pin = await login();
+        assert.strictEqual(pin.length, 8);
+
+        const menu = await handler.sendDeferredRequest({}, pin, Types.LOGIN, LoginSubTypes.MENU_REQUEST, LoginSubTypes.MENU_RESPONSE);
+        for(const deviceType of Object.keys(server.getFixture().devices)) {
+            assert.ok(menu["controlinfo"][deviceType], `controlinfo of ${deviceType}`);
+        }
+    });
+
+    it("rejects the requests without the login PIN", async () => {
+        const rejected = new Promise<void>((resolve) => {
+            handler.registerErrorListener(Errors.INVALID_LOGIN_PIN, () => resolve());
+        });
+        handler.sendUnreliableRequest({
+            type: "query",
+            item: [{ device: "light", uid: "all" }]
+        }, CERTIFICATION_PIN, Types.DEVICE, DeviceSubTypes.QUERY_REQUEST);
+        await rejected;
+    });
+
+    it("applies the invokes to the devices of the fixture", async () => {
+        const pin = await login();
+        const device = server.getFixture().devices["light"][0];
+        const state = device.state["arg1"] === "on" ? "off" : "on";
+
+        const response = await handler.sendDeferredRequest({
+            type: "invoke",
+            item: [{ device: "light", uid: device.uid, arg1: state }]
+        }, pin, Types.DEVICE, DeviceSubTypes.INVOKE_REQUEST, DeviceSubTypes.INVOKE_RESPONSE);
+        assert.strictEqual(response["item"][0]["arg1"], state);
+
+        const query = await handler.sendDeferredRequest({
+            type: "query",
+            item: [{ device: "light", uid: device.uid }]
+        }, pin, Types.DEVICE, DeviceSubTypes.QUERY_REQUEST, DeviceSubTypes.QUERY_RESPONSE);
+        assert.strictEqual(query["item"][0]["arg1"], state);
+    });
+
+});
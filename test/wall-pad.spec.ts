@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as http from "http";
+import {WallPadPinReceiver} from "../core/wall-pad";
+import {createLogger, createStoragePath} from "./helpers";
+
+const PORT = 25302;
+
+function request(path: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const req = http.request({ host: "127.0.0.1", port: PORT, path, method: "GET" }, (response) => {
+            response.resume();
+            resolve(response.statusCode || 0);
+        });
+        req.on("error", reject);
+        req.end();
+    });
+}
+
+describe("WallPadPinReceiver", () => {
+
+    let storagePath: string;
+    let receiver: WallPadPinReceiver;
+
+    beforeEach(() => {
+        storagePath = createStoragePath();
+    });
+
+    afterEach(() => {
+        receiver?.stop();
+        delete process.env[WallPadPinReceiver.ENVIRONMENT_VARIABLE];
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it("rejects malformed request URLs", async () => {
+        const pins: string[] = [];
+        receiver = new WallPadPinReceiver(createLogger(), storagePath, { port: PORT });
+        receiver.start((pin) => pins.push(pin));
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        assert.strictEqual(await request("//["), 400);
+        assert.strictEqual(await request("/?pin=123456"), 202);
+        assert.deepStrictEqual(pins, ["123456"]);
+    });
+
+    it("uses the PIN of the environment variable only once across restarts", () => {
+        process.env[WallPadPinReceiver.ENVIRONMENT_VARIABLE] = "123456";
+        const pins: string[] = [];
+
+        receiver = new WallPadPinReceiver(createLogger(), storagePath);
+        receiver.start((pin) => pins.push(pin));
+        receiver.stop();
+        receiver = new WallPadPinReceiver(createLogger(), storagePath);
+        receiver.start((pin) => pins.push(pin));
+        receiver.stop();
+        assert.deepStrictEqual(pins, ["123456"]);
+
+        process.env[WallPadPinReceiver.ENVIRONMENT_VARIABLE] = "654321";
+        receiver = new WallPadPinReceiver(createLogger(), storagePath);
+        receiver.start((pin) => pins.push(pin));
+        assert.deepStrictEqual(pins, ["123456", "654321"]);
+    });
+
+});